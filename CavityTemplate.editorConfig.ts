@@ -99,42 +99,284 @@ export type PreviewProps =
     | SelectableProps
     | DatasourceProps;
 
+// ── Property visibility ───────────────────────────────────────────────────────
+const hideProperties = (groups: Properties, keys: string[]): void => {
+    groups.forEach(group => {
+        if (group.properties) group.properties = group.properties.filter(property => !keys.includes(property.key));
+        if (group.propertyGroups) hideProperties(group.propertyGroups, keys);
+    });
+};
+
+const AUTO_NUMBER_KEYS = [
+    "autoNumberOrder",
+    "autoNumberCorner",
+    "autoNumberStart",
+    "autoNumberStep",
+    "autoNumberPrefix",
+    "autoNumberTemplate",
+    "autoNumberIncludeBlocked",
+    "autoNumberIncludeBlank"
+];
+
+const CELL_OBJECT_KEYS = [
+    "cellDataSource",
+    "cellRowAttribute",
+    "cellColumnAttribute",
+    "cellNumberAttribute",
+    "cellBlockedAttribute",
+    "cellBlankAttribute",
+    "cellMergeGroupAttribute",
+    "cellStateAttribute",
+    "headerLabelsAttribute",
+    "cellMetadataAttribute",
+    "onSyncCells"
+];
+
+const DIAGRAM_KEYS = ["diagramTitle", "diagramFile", "diagramFileFormat", "onDiagramSaved"];
+
+const TEMPLATE_ATTRIBUTE_KEYS = ["templatesAttribute"];
+
+const TEMPLATE_OBJECT_KEYS = [
+    "templateDataSource",
+    "templateNameAttribute",
+    "templateDataAttribute",
+    "saveTemplateNameAttribute",
+    "saveTemplateDataAttribute"
+];
+
 export function getProperties(
-    _values: CavityTemplatePreviewProps,
+    values: CavityTemplatePreviewProps,
     defaultProperties: Properties /* , target: Platform*/
 ): Properties {
-    // Do the values manipulation here to control the visibility of properties in Studio and Studio Pro conditionally.
-    /* Example
-    if (values.myProperty === "custom") {
-        delete defaultProperties.properties.myOtherProperty;
-    }
-    */
+    const hidden: string[] = [];
+    if (values.displayMode !== "conditional") hidden.push("readOnlyCondition");
+    if (values.dataSourceMode === "objects") hidden.push("useAttributeData", "tableDataAttribute");
+    else hidden.push(...CELL_OBJECT_KEYS);
+    if (!values.showAutoNumberButton) hidden.push(...AUTO_NUMBER_KEYS);
+    if (!values.showDiagramButtons) hidden.push(...DIAGRAM_KEYS);
+    else if (!values.diagramFile) hidden.push("diagramFileFormat", "onDiagramSaved");
+    if (!values.showTemplateButtons)
+        hidden.push("templateSource", "onSaveTemplate", ...TEMPLATE_ATTRIBUTE_KEYS, ...TEMPLATE_OBJECT_KEYS);
+    else if (values.templateSource === "objects") hidden.push(...TEMPLATE_ATTRIBUTE_KEYS);
+    else hidden.push(...TEMPLATE_OBJECT_KEYS);
+    if (!values.autoSave) hidden.push("autoSaveDelay");
+    if (!values.onGenerateTable) hidden.push("generateResult");
+    if (!values.enableCellMerging) hidden.push("mergedCellColor");
+    if (!values.enableCellBlanking) hidden.push("blankCellColor", "blankCellsAttribute");
+    if (values.displayMode === "readOnly") hidden.push("selectedCellColor");
+    if (values.cellStates.length === 0) hidden.push("activeCellsAttribute");
+    if (!values.showHeaders && !values.enableVirtualization) hidden.push("rowLabelScheme", "columnLabelScheme");
+    if (!values.selectedCellsAttribute) hidden.push("selectionFormat");
+    hideProperties(defaultProperties, hidden);
     return defaultProperties;
 }
 
-// export function check(_values: CavityTemplatePreviewProps): Problem[] {
-//     const errors: Problem[] = [];
-//     // Add errors to the above array to throw errors in Studio and Studio Pro.
-//     /* Example
-//     if (values.myProperty !== "custom") {
-//         errors.push({
-//             property: `myProperty`,
-//             message: `The value of 'myProperty' is different of 'custom'.`,
-//             url: "https://github.com/myrepo/mywidget"
-//         });
-//     }
-//     */
-//     return errors;
-// }
-
-// export function getPreview(values: CavityTemplatePreviewProps, isDarkMode: boolean, version: number[]): PreviewProps {
-//     // Customize your pluggable widget appearance for Studio Pro.
-//     return {
-//         type: "Container",
-//         children: []
-//     }
-// }
-
-// export function getCustomCaption(values: CavityTemplatePreviewProps, platform: Platform): string {
-//     return "CavityTemplate";
-// }
+// ── Design-time checks ────────────────────────────────────────────────────────
+// prettier-ignore
+const CSS_COLOR_NAMES = new Set([
+    "aliceblue", "antiquewhite", "aqua", "aquamarine", "azure", "beige", "bisque", "black", "blanchedalmond", "blue",
+    "blueviolet", "brown", "burlywood", "cadetblue", "chartreuse", "chocolate", "coral", "cornflowerblue", "cornsilk",
+    "crimson", "cyan", "darkblue", "darkcyan", "darkgoldenrod", "darkgray", "darkgreen", "darkgrey", "darkkhaki",
+    "darkmagenta", "darkolivegreen", "darkorange", "darkorchid", "darkred", "darksalmon", "darkseagreen", "darkslateblue",
+    "darkslategray", "darkslategrey", "darkturquoise", "darkviolet", "deeppink", "deepskyblue", "dimgray", "dimgrey",
+    "dodgerblue", "firebrick", "floralwhite", "forestgreen", "fuchsia", "gainsboro", "ghostwhite", "gold", "goldenrod",
+    "gray", "green", "greenyellow", "grey", "honeydew", "hotpink", "indianred", "indigo", "ivory", "khaki", "lavender",
+    "lavenderblush", "lawngreen", "lemonchiffon", "lightblue", "lightcoral", "lightcyan", "lightgoldenrodyellow",
+    "lightgray", "lightgreen", "lightgrey", "lightpink", "lightsalmon", "lightseagreen", "lightskyblue", "lightslategray",
+    "lightslategrey", "lightsteelblue", "lightyellow", "lime", "limegreen", "linen", "magenta", "maroon",
+    "mediumaquamarine", "mediumblue", "mediumorchid", "mediumpurple", "mediumseagreen", "mediumslateblue",
+    "mediumspringgreen", "mediumturquoise", "mediumvioletred", "midnightblue", "mintcream", "mistyrose", "moccasin",
+    "navajowhite", "navy", "oldlace", "olive", "olivedrab", "orange", "orangered", "orchid", "palegoldenrod", "palegreen",
+    "paleturquoise", "palevioletred", "papayawhip", "peachpuff", "peru", "pink", "plum", "powderblue", "purple",
+    "rebeccapurple", "red", "rosybrown", "royalblue", "saddlebrown", "salmon", "sandybrown", "seagreen", "seashell",
+    "sienna", "silver", "skyblue", "slateblue", "slategray", "slategrey", "snow", "springgreen", "steelblue", "tan",
+    "teal", "thistle", "tomato", "turquoise", "violet", "wheat", "white", "whitesmoke", "yellow", "yellowgreen",
+    "transparent", "currentcolor"
+]);
+
+// Hex, rgb()/rgba(), hsl()/hsla() or a CSS colour name such as "transparent"
+const isCssColor = (value: string): boolean =>
+    /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value) ||
+    /^(rgb|hsl)a?\(\s*[\d.]+%?\s*(,\s*[\d.]+%?\s*){2,3}\)$/i.test(value) ||
+    /^(rgb|hsl)a?\(\s*[\d.]+%?(\s+[\d.]+%?){2}(\s*\/\s*[\d.]+%?)?\s*\)$/i.test(value) ||
+    CSS_COLOR_NAMES.has(value.toLowerCase());
+
+const COLOR_KEYS: Array<keyof CavityTemplatePreviewProps> = [
+    "tableBorderColor",
+    "selectedCellColor",
+    "mergedCellColor",
+    "blankCellColor"
+];
+
+export function check(values: CavityTemplatePreviewProps): Problem[] {
+    const errors: Problem[] = [];
+
+    COLOR_KEYS.forEach(key => {
+        const value = String(values[key] ?? "").trim();
+        if (value !== "" && !isCssColor(value)) {
+            errors.push({
+                property: key,
+                message: `"${value}" is not a valid CSS colour. Use a hex value such as #dee2e6, rgb(), hsl() or a colour name.`
+            });
+        }
+    });
+
+    if (values.onGenerateTable && !values.generateResult) {
+        errors.push({
+            property: "generateResult",
+            message:
+                "On generate table is set, so Generate table result is required: the widget waits for the action to set it to True before generating."
+        });
+    }
+
+    if (values.dataSourceMode === "objects") {
+        const required: Array<[keyof CavityTemplatePreviewProps, string]> = [
+            ["cellDataSource", "Cell objects"],
+            ["cellRowAttribute", "Row"],
+            ["cellColumnAttribute", "Column"],
+            ["cellNumberAttribute", "Number"],
+            ["cellBlockedAttribute", "Blocked"]
+        ];
+        required.forEach(([key, caption]) => {
+            if (!values[key])
+                errors.push({ property: key, message: `${caption} is required when Storage is Cell objects.` });
+        });
+    } else if (!values.useAttributeData) {
+        errors.push({
+            property: "useAttributeData",
+            message: "Table data is required when Storage is JSON attribute."
+        });
+    }
+
+    if (values.showTemplateButtons) {
+        if (values.templateSource === "objects") {
+            const required: Array<[keyof CavityTemplatePreviewProps, string]> = [
+                ["templateDataSource", "Template objects"],
+                ["templateNameAttribute", "Name"],
+                ["templateDataAttribute", "Data"],
+                ["saveTemplateNameAttribute", "Saved template name"],
+                ["saveTemplateDataAttribute", "Saved template data"],
+                ["onSaveTemplate", "On save template"]
+            ];
+            required.forEach(([key, caption]) => {
+                if (!values[key])
+                    errors.push({ property: key, message: `${caption} is required when Template storage is Objects.` });
+            });
+        } else if (!values.templatesAttribute) {
+            errors.push({
+                property: "templatesAttribute",
+                message: "Templates is required when Template storage is Attribute."
+            });
+        }
+    }
+
+    if (values.displayMode === "conditional" && !values.readOnlyCondition) {
+        errors.push({
+            property: "readOnlyCondition",
+            message: "Read-only condition is required when Display mode is Conditional."
+        });
+    }
+
+    if (values.maxRows !== null && values.maxRows < 1) {
+        errors.push({ property: "maxRows", message: "Maximum rows must be at least 1." });
+    }
+    if (values.maxColumns !== null && values.maxColumns < 1) {
+        errors.push({ property: "maxColumns", message: "Maximum columns must be at least 1." });
+    }
+
+    const stateKeys = new Set<string>();
+    values.cellStates.forEach(state => {
+        const key = state.stateKey.trim();
+        if (key === "") {
+            errors.push({ property: "cellStates", message: "Every cell state needs a key." });
+        } else if (stateKeys.has(key)) {
+            errors.push({ property: "cellStates", message: `Cell state key "${key}" is used more than once.` });
+        }
+        stateKeys.add(key);
+        const color = (state.stateColor ?? "").trim();
+        if (color !== "" && !isCssColor(color)) {
+            errors.push({ property: "cellStates", message: `Cell state "${key}" has an invalid colour "${color}".` });
+        }
+    });
+
+    const fieldKeys = new Set<string>();
+    values.metadataFields.forEach(field => {
+        const key = field.fieldKey.trim();
+        if (key === "") {
+            errors.push({ property: "metadataFields", message: "Every metadata field needs a key." });
+        } else if (key === "notes") {
+            errors.push({ property: "metadataFields", message: `The key "notes" is reserved for the Notes option.` });
+        } else if (fieldKeys.has(key)) {
+            errors.push({ property: "metadataFields", message: `Metadata field key "${key}" is used more than once.` });
+        }
+        fieldKeys.add(key);
+        if (field.fieldType === "enum" && (field.fieldOptions ?? "").split(",").every(option => option.trim() === "")) {
+            errors.push({
+                property: "metadataFields",
+                message: `Metadata field "${key}" is an Enumeration without options.`
+            });
+        }
+    });
+
+    if (values.autoSave && values.autoSaveDelay !== null && values.autoSaveDelay < 0) {
+        errors.push({ property: "autoSaveDelay", message: "Auto save delay must not be negative." });
+    }
+
+    if (values.showAutoNumberButton && values.autoNumberStep === 0) {
+        errors.push({ property: "autoNumberStep", message: "Step must not be 0." });
+    }
+
+    return errors;
+}
+
+// ── Structure mode ────────────────────────────────────────────────────────────
+// A 3×3 sample grid like the design-mode preview, with the merged pair and the
+// blank cell shown only when those features are on
+const toHexColor = (value: string | undefined, fallback: string): string =>
+    /^#[0-9a-f]{6}$/i.test((value ?? "").trim()) ? (value as string).trim() : fallback;
+
+export function getPreview(values: CavityTemplatePreviewProps, isDarkMode: boolean): PreviewProps {
+    const textColor = isDarkMode ? "#DEE2E6" : "#212529";
+    const sampleCell = (content: string, backgroundColor: string, grow = 1): ContainerProps => ({
+        type: "Container",
+        grow,
+        borders: true,
+        borderWidth: 1,
+        padding: 6,
+        backgroundColor,
+        children: [{ type: "Text", content, fontSize: 8, fontColor: textColor }]
+    });
+    const plain = isDarkMode ? "#3B3B3B" : "#FFFFFF";
+    const merged = toHexColor(values.mergedCellColor, "#E3F2FD");
+    const blank = toHexColor(values.blankCellColor, "#2C2C2C");
+
+    const rows: ContainerProps[][] = [
+        values.enableCellMerging
+            ? [sampleCell("1", merged, 2), sampleCell("3", plain)]
+            : [sampleCell("1", plain), sampleCell("2", plain), sampleCell("3", plain)],
+        [
+            sampleCell("4", plain),
+            sampleCell(values.enableCheckbox ? "5 (blocked)" : "5", plain),
+            sampleCell("6", plain)
+        ],
+        [
+            sampleCell("7", plain),
+            sampleCell("8", plain),
+            values.enableCellBlanking ? sampleCell("", blank) : sampleCell("9", plain)
+        ]
+    ];
+
+    return {
+        type: "Container",
+        borders: true,
+        padding: 4,
+        children: [
+            { type: "Text", content: getCustomCaption(values), bold: true, fontSize: 9, fontColor: textColor },
+            ...rows.map((children): RowLayoutProps => ({ type: "RowLayout", columnSize: "grow", children }))
+        ]
+    };
+}
+
+export function getCustomCaption(values: CavityTemplatePreviewProps): string {
+    return values.dataSourceMode === "objects" ? "Cavity Template (cell objects)" : "Cavity Template";
+}
@@ -1,95 +1,218 @@
-import { ReactElement, createElement } from "react";
+import { CSSProperties, ReactElement } from "react";
 import { CavityTemplatePreviewProps } from "../typings/CavityTemplateProps";
+import { autoHeaderLabel } from "./tableHeaders";
 
+// Sample 3×3 layout: a merged pair, a blocked cell, a blank cell and a selected
+// cell, each only when the matching feature is on, drawn in the configured colours
+type SampleCell = "plain" | "merged" | "hidden" | "blocked" | "blank" | "selected";
+
+const sampleLayout = (props: CavityTemplatePreviewProps): SampleCell[][] => [
+    props.enableCellMerging ? ["merged", "hidden", "plain"] : ["plain", "plain", "plain"],
+    ["plain", props.enableCheckbox ? "blocked" : "plain", "plain"],
+    ["selected", "plain", props.enableCellBlanking ? "blank" : "plain"]
+];
+
+const buttonStyle = (background: string): CSSProperties => ({
+    padding: "4px 10px",
+    borderRadius: "4px",
+    backgroundColor: background,
+    color: "white",
+    fontSize: "11px",
+    fontWeight: 600
+});
 
 export function preview(props: CavityTemplatePreviewProps): ReactElement {
-    // Use default values since initialRows/initialColumns aren't in generated types
-    const columns = 3;
-    const rows = 3;
+    const isReadOnly = props.displayMode === "readOnly";
+    const borderColor = props.tableBorderColor || "#dee2e6";
+    const layout = sampleLayout(props);
+    const showHeaders = props.showHeaders || props.enableVirtualization;
 
-    return (
-        <div className="tableview-preview">
-            <div style={{
-                padding: "10px",
-                backgroundColor: "#f8f9fa",
-                borderRadius: "8px",
-                border: "2px dashed #dee2e6"
-            }}>
-                <div style={{
-                    display: "flex",
-                    gap: "10px",
-                    marginBottom: "10px",
-                    padding: "10px",
-                    background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
-                    borderRadius: "6px",
-                    color: "white"
-                }}>
-                    <div style={{ fontSize: "12px", fontWeight: "600" }}>
-                        📊 Tableview Widget Preview
+    const buttons: Array<[string, string]> = [];
+    if (!isReadOnly) {
+        if (props.showGenerateButton) buttons.push(["Generate Table", "#0d6efd"]);
+        if (props.showAutoNumberButton) buttons.push(["Auto-number", "#0dcaf0"]);
+        if (props.showUndoRedoButtons) buttons.push(["Undo", "#6c757d"], ["Redo", "#6c757d"]);
+        if (props.showImportExportButtons)
+            buttons.push(["Export CSV", "#0dcaf0"], ["Export XLSX", "#0dcaf0"], ["Import", "#6c757d"]);
+    }
+    if (props.showDiagramButtons)
+        buttons.push(["Export SVG", "#0dcaf0"], ["Export PNG", "#0dcaf0"], ["Print", "#6c757d"]);
+
+    const cellStyle = (kind: SampleCell): CSSProperties => {
+        const base: CSSProperties = {
+            border: `1px solid ${borderColor}`,
+            padding: "6px",
+            textAlign: "center",
+            minWidth: "60px",
+            height: "45px",
+            backgroundColor: "#fff",
+            fontSize: "11px"
+        };
+        if (kind === "merged")
+            return { ...base, backgroundColor: props.mergedCellColor || "#e3f2fd", border: "2px solid #2196f3" };
+        if (kind === "blocked") return { ...base, border: "2px solid #fdd835" };
+        if (kind === "blank") return { ...base, backgroundColor: props.blankCellColor || "#2c2c2c" };
+        if (kind === "selected" && !isReadOnly)
+            return { ...base, backgroundColor: props.selectedCellColor || "#cfe2ff" };
+        return base;
+    };
+
+    const renderCellContent = (kind: SampleCell, value: number): ReactElement | null => {
+        if (kind === "blank") return null;
+        return (
+            <div>
+                {props.enableCheckbox && (
+                    <div style={{ marginBottom: "4px" }}>
+                        <input
+                            type="checkbox"
+                            disabled
+                            checked={kind === "blocked"}
+                            style={{ width: "14px", height: "14px" }}
+                        />
                     </div>
+                )}
+                {props.enableCellEditing && !isReadOnly ? (
+                    <div
+                        style={{
+                            border: "1px solid #ced4da",
+                            borderRadius: "3px",
+                            padding: "3px",
+                            fontSize: "10px",
+                            color: "#495057"
+                        }}
+                    >
+                        {value}
+                    </div>
+                ) : (
+                    <span style={{ color: "#212529" }}>{value}</span>
+                )}
+            </div>
+        );
+    };
+
+    const headerStyle: CSSProperties = {
+        backgroundColor: "#f1f3f5",
+        color: "#495057",
+        fontSize: "10px",
+        fontWeight: 600,
+        border: `1px solid ${borderColor}`,
+        padding: "2px 6px"
+    };
+    const addButtonStyle: CSSProperties = { ...buttonStyle("#198754"), padding: "2px 8px", alignSelf: "center" };
+
+    return (
+        <div className="tableview-preview" style={{ padding: "10px", backgroundColor: "#f8f9fa", borderRadius: "8px" }}>
+            {buttons.length > 0 && (
+                <div style={{ display: "flex", flexWrap: "wrap", gap: "6px", marginBottom: "10px" }}>
+                    {buttons.map(([caption, background]) => (
+                        <span key={caption} style={buttonStyle(background)}>
+                            {caption}
+                        </span>
+                    ))}
                 </div>
-                
-                <div style={{
+            )}
+
+            <div
+                style={{
                     backgroundColor: "white",
-                    padding: "15px",
+                    padding: "12px",
                     borderRadius: "6px",
                     boxShadow: "0 2px 4px rgba(0, 0, 0, 0.1)"
-                }}>
-                    <table style={{
-                        borderCollapse: "collapse",
-                        width: "100%"
-                    }}>
+                }}
+            >
+                {props.showAddColumnButton && !isReadOnly && (
+                    <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: "6px" }}>
+                        <span style={addButtonStyle}>+</span>
+                    </div>
+                )}
+                <div style={{ display: "flex", gap: "8px" }}>
+                    {props.showAddRowButton && !isReadOnly && <span style={addButtonStyle}>+</span>}
+                    <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                        {showHeaders && (
+                            <thead>
+                                <tr>
+                                    <th style={headerStyle} />
+                                    {layout[0].map((_, colIdx) => (
+                                        <th key={colIdx} style={headerStyle}>
+                                            {autoHeaderLabel(colIdx + 1, props.columnLabelScheme)}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                        )}
                         <tbody>
-                            {Array.from({ length: rows }, (_, rowIdx) => (
+                            {layout.map((row, rowIdx) => (
                                 <tr key={rowIdx}>
-                                    {Array.from({ length: columns }, (_, colIdx) => (
-                                        <td key={colIdx} style={{
-                                            border: "1px solid #dee2e6",
-                                            padding: "8px",
-                                            textAlign: "center",
-                                            minWidth: "60px",
-                                            height: "45px",
-                                            backgroundColor: "#fff",
-                                            fontSize: "11px"
-                                        }}>
-                                            {props.enableCheckbox && (
-                                                <div style={{ marginBottom: "4px" }}>
-                                                    <input type="checkbox" disabled style={{ width: "14px", height: "14px" }} />
-                                                </div>
-                                            )}
-                                            {props.enableCellEditing && (
-                                                <div style={{
-                                                    border: "1px solid #ced4da",
-                                                    borderRadius: "3px",
-                                                    padding: "4px",
-                                                    fontSize: "9px",
-                                                    color: "#999"
-                                                }}>
-                                                    #
-                                                </div>
-                                            )}
-                                        </td>
-                                    ))}
+                                    {showHeaders && (
+                                        <th style={headerStyle}>{autoHeaderLabel(rowIdx + 1, props.rowLabelScheme)}</th>
+                                    )}
+                                    {row.map((kind, colIdx) =>
+                                        kind === "hidden" ? null : (
+                                            <td
+                                                key={colIdx}
+                                                colSpan={kind === "merged" ? 2 : undefined}
+                                                style={cellStyle(kind)}
+                                            >
+                                                {renderCellContent(kind, rowIdx * 3 + colIdx + 1)}
+                                            </td>
+                                        )
+                                    )}
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
-                
-                <div style={{
+            </div>
+
+            <div
+                style={{
                     marginTop: "10px",
                     padding: "8px",
                     backgroundColor: "white",
                     borderRadius: "6px",
                     fontSize: "11px",
                     color: "#495057"
-                }}>
-                    <strong>Configuration:</strong> {rows} rows × {columns} columns
-                    {props.rowCountAttribute && <span> • Row attr: ✓</span>}
-                    {props.columnCountAttribute && <span> • Col attr: ✓</span>}
-                    {props.enableCellMerging && <span> • Merging: ✓</span>}
-                </div>
+                }}
+            >
+                <strong>Table:</strong> 3 rows × 3 columns
+                {props.enableCheckbox && <span> • Blocked: 1</span>}
+                {props.enableCellMerging && <span> • Merged: 2</span>}
+                {props.enableCellBlanking && <span> • Blank: 1</span>}
+                {(props.validateUnique || props.validateContiguous || props.validateNumericOnly) && (
+                    <span> • Validation: on</span>
+                )}
+                {props.displayMode !== "editable" && (
+                    <span> • {isReadOnly ? "Read-only" : "Conditionally read-only"}</span>
+                )}
+                {props.dataSourceMode === "objects" && <span> • Cell objects</span>}
             </div>
+
+            {props.cellStates.length > 0 && (
+                <div
+                    style={{
+                        display: "flex",
+                        flexWrap: "wrap",
+                        gap: "4px 12px",
+                        marginTop: "6px",
+                        fontSize: "11px",
+                        color: "#495057"
+                    }}
+                >
+                    {props.cellStates.map((state, index) => (
+                        <span key={index} style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+                            <span
+                                style={{
+                                    width: "10px",
+                                    height: "10px",
+                                    border: "1px solid #adb5bd",
+                                    backgroundColor: state.stateColor || "transparent"
+                                }}
+                            />
+                            {state.stateCaption || state.stateKey || "(no key)"}
+                        </span>
+                    ))}
+                </div>
+            )}
         </div>
     );
 }
@@ -100,4 +223,4 @@ export function getPreviewCss(): string {
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', sans-serif;
         }
     `;
-}
\ No newline at end of file
+}
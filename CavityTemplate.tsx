@@ -1,178 +1,237 @@
-import { ReactElement, createElement, useState, useCallback, useEffect, useRef } from "react";
+import { ReactElement, createElement, useState, useCallback, useEffect, useMemo, useRef } from "react";
 
 import classNames from "classnames";
+import { DynamicValue, EditableValue, WebIcon } from "mendix";
 import { CavityTemplateContainerProps } from "../typings/CavityTemplateProps";
 import Big from "big.js";
+import { CellObject, MergeSpanInfo, TableRow } from "./tableTypes";
+import { ParseResult, SchemaProblem, parseTableData } from "./tableSchema";
+import { CellBinding, getCellRecordsKey, readCellRecords, recordsToTableData, writeCellRecords } from "./cellObjects";
+import { AutoNumberCorner, AutoNumberOptions, AutoNumberOrder, DEFAULT_LABEL_TEMPLATE, formatLabel } from "./autoNumber";
+import {
+    AutofillMode,
+    CellPosition,
+    CellRange,
+    applyAutofill,
+    autoNumberCells,
+    computeMergeSpans,
+    createMergeId,
+    createTable,
+    deleteColumnsAt,
+    deleteRowsAt,
+    getActiveCellCount,
+    getAutofillCells,
+    getCellAt,
+    getCellSpan,
+    getMergeRange,
+    getNeighbourPosition,
+    getStateCounts,
+    setCellMetadata,
+    getTableStatistics,
+    growTableRows,
+    hasTableContent,
+    insertColumnAt,
+    insertRowAt,
+    isCellHidden,
+    mergeRange,
+    parseCellId,
+    serializeTable,
+    setBlank,
+    setCellState,
+    setCellValue,
+    setCellValues,
+    toggleBlocked,
+    unmergeAt
+} from "./tableModel";
+import { useTableHistory } from "./useTableHistory";
+import { useFeedback } from "./useFeedback";
+import { FeedbackSeverity, MessageKey, MessageTemplates, describeError, formatMessage } from "./feedbackMessages";
+import {
+    VIRTUAL_CELL_HEIGHT,
+    VIRTUAL_CELL_WIDTH,
+    VIRTUAL_HEADER_WIDTH,
+    useVirtualGrid
+} from "./useVirtualGrid";
+import { ValidationRules, formatValidationMessage, hasValidationRules, validateTable } from "./tableValidation";
+import { ClipboardGrid, gridToHtml, gridToTsv, isMultiCellText, parseTsv } from "./clipboard";
+import { Layout, LayoutColors, downloadFile, layoutToCsv, layoutToXlsx, readLayoutFile } from "./layoutFile";
+import { layoutToSvg, printSvg, svgToPng } from "./layoutDiagram";
+import { CellField, NOTES_KEY, fieldInputValue, getCellNotes, parseFieldInput } from "./cellMetadata";
+import { normaliseSelection, parseSelection, serializeSelection } from "./selectionBinding";
+import { LayoutTemplate, TemplateBinding, parseTemplateList, readTemplateItems, serializeTemplateList, upsertTemplate } from "./layoutTemplates";
+import {
+    EMPTY_HEADER_LABELS,
+    HeaderLabels,
+    autoHeaderLabel,
+    compactHeaderLabels,
+    deleteHeaderLabels,
+    formatCellLabel,
+    insertHeaderLabel,
+    parseHeaderLabels,
+    resolveHeaderLabels,
+    setHeaderLabel,
+    toHeaderOverrides
+} from "./tableHeaders";
 import "./ui/CavityTemplate.css";
 
-interface CellObject {
-    id: string;
-    sequenceNumber: string;
-    isBlocked: boolean;
-    isMerged: boolean;
-    mergeId: string;
-    isBlank: boolean;
-    rowIndex: number;
-    columnIndex: number;
-}
-
-interface TableRow {
-    id: string;
-    rowIndex: number;
-    cells: CellObject[];
-}
-
-interface TableData {
-    rows: number;
-    columns: number;
-    tableRows: TableRow[];
-    mergeSpans?: Record<string, { rowSpan: number; colSpan: number; anchorRow: number; anchorCol: number }>;
-    metadata?: {
-        createdAt?: string;
-        updatedAt?: string;
-    };
-}
-
-interface MergeSpanInfo {
-    rowSpan: number;
-    colSpan: number;
-    anchorRow: number;
-    anchorCol: number;
-}
-
 // ── Autofill drag state ───────────────────────────────────────────────────────
 interface AutofillDragState {
     active: boolean;
-    sourceRow: number;
-    sourceCol: number;
-    sourceValue: number;
-    direction: "horizontal" | "vertical" | null;
+    source: CellRange;
+    mode: AutofillMode;
     currentRow: number;
     currentCol: number;
 }
 
-const computeMergeSpans = (rows: TableRow[]): Record<string, MergeSpanInfo> => {
-    const groupedByMerge: Record<string, { row: number; col: number }[]> = {};
-    rows.forEach(row => {
-        row.cells.forEach(cell => {
-            if (!cell.isMerged || !cell.mergeId) return;
-            if (!groupedByMerge[cell.mergeId]) groupedByMerge[cell.mergeId] = [];
-            groupedByMerge[cell.mergeId].push({ row: cell.rowIndex, col: cell.columnIndex });
-        });
-    });
-    const result: Record<string, MergeSpanInfo> = {};
-    Object.entries(groupedByMerge).forEach(([mergeId, positions]) => {
-        const rows2 = positions.map(p => p.row);
-        const cols = positions.map(p => p.col);
-        const minRow = Math.min(...rows2);
-        const maxRow = Math.max(...rows2);
-        const minCol = Math.min(...cols);
-        const maxCol = Math.max(...cols);
-        result[mergeId] = {
-            rowSpan: maxRow - minRow + 1,
-            colSpan: maxCol - minCol + 1,
-            anchorRow: minRow,
-            anchorCol: minCol
-        };
-    });
-    return result;
+const IDLE_AUTOFILL: AutofillDragState = {
+    active: false,
+    source: { minRow: 0, maxRow: 0, minCol: 0, maxCol: 0 },
+    mode: "series",
+    currentRow: 0,
+    currentCol: 0
 };
 
-const isCellHidden = (cell: CellObject, mergeSpans: Record<string, MergeSpanInfo>): boolean => {
-    if (!cell.isMerged || !cell.mergeId) return false;
-    const span = mergeSpans[cell.mergeId];
-    if (!span) return false;
-    return !(cell.rowIndex === span.anchorRow && cell.columnIndex === span.anchorCol);
+// Holding Ctrl (Cmd on macOS) while dragging the handle repeats the source values
+const getAutofillMode = (event: { ctrlKey: boolean; metaKey: boolean }): AutofillMode =>
+    event.ctrlKey || event.metaKey ? "copy" : "series";
+
+// ── Undo snapshot: the grid plus its renamed headers ──────────────────────────
+interface TableSnapshot {
+    rows: TableRow[];
+    headerLabels: HeaderLabels;
+}
+
+type HeaderAxis = "row" | "column";
+
+// ── Changes made but not committed yet ────────────────────────────────────────
+interface PendingSave {
+    rows: TableRow[];
+    rowCnt: number;
+    colCnt: number;
+}
+
+// ── Touch: hold still this long to start a range instead of scrolling ──────────
+const LONG_PRESS_MS = 400;
+const LONG_PRESS_SLOP = 10;
+
+// ── Auto-number panel choices ─────────────────────────────────────────────────
+const AUTO_NUMBER_ORDERS: Array<[AutoNumberOrder, string]> = [
+    ["rowMajor", "Row by row"],
+    ["columnMajor", "Column by column"],
+    ["serpentineRows", "Serpentine rows"],
+    ["serpentineColumns", "Serpentine columns"],
+    ["spiral", "Spiral"]
+];
+
+const AUTO_NUMBER_CORNERS: Array<[AutoNumberCorner, string]> = [
+    ["topLeft", "Top left"],
+    ["topRight", "Top right"],
+    ["bottomLeft", "Bottom left"],
+    ["bottomRight", "Bottom right"]
+];
+
+// ── Helper: optional Integer expression, undefined while loading or empty ────
+const readExpressionNumber = (expression?: DynamicValue<Big>): number | undefined =>
+    expression?.status === "available" && expression.value !== undefined ? Number(expression.value) : undefined;
+
+// ── Helper: write an optional output attribute ───────────────────────────────
+const writeAttribute = <T extends string | boolean | Big>(attribute: EditableValue<T> | undefined, value: T): void => {
+    if (attribute?.status === "available" && !attribute.readOnly) attribute.setValue(value);
 };
 
-const getCellSpan = (
+// ── Helper: convert to/from the spreadsheet exchange layout ──────────────────
+const tableRowsToLayout = (
+    rows: TableRow[],
+    spans: Record<string, MergeSpanInfo>,
+    labels?: Pick<Layout, "rowLabels" | "columnLabels">
+): Layout => ({
+    ...labels,
+    rows: rows.length,
+    columns: rows[0]?.cells.length ?? 0,
+    cells: rows.flatMap(row =>
+        row.cells.map(cell => ({
+            row: cell.rowIndex,
+            column: cell.columnIndex,
+            value: cell.sequenceNumber === "-" ? "" : cell.sequenceNumber,
+            isBlocked: cell.isBlocked,
+            isBlank: cell.isBlank
+        }))
+    ),
+    merges: Object.values(spans).map(span => ({
+        top: span.anchorRow,
+        left: span.anchorCol,
+        bottom: span.anchorRow + span.rowSpan - 1,
+        right: span.anchorCol + span.colSpan - 1
+    }))
+});
+
+// ── Helper: screen-reader label for a cell ───────────────────────────────────
+// Carries every state the cell classes show by colour, so nothing is lost
+// without colour vision or a screen
+const describeCell = (
     cell: CellObject,
-    mergeSpans: Record<string, MergeSpanInfo>
-): { rowSpan: number; colSpan: number } => {
-    if (!cell.isMerged || !cell.mergeId) return { rowSpan: 1, colSpan: 1 };
-    const span = mergeSpans[cell.mergeId];
-    if (!span) return { rowSpan: 1, colSpan: 1 };
-    if (cell.rowIndex === span.anchorRow && cell.columnIndex === span.anchorCol) {
-        return { rowSpan: span.rowSpan, colSpan: span.colSpan };
-    }
-    return { rowSpan: 1, colSpan: 1 };
+    rowSpan: number,
+    colSpan: number,
+    problems?: string[],
+    stateCaption?: string,
+    hasNotes?: boolean
+): string => {
+    const value = cell.sequenceNumber.trim();
+    const parts = [`Row ${cell.rowIndex}, column ${cell.columnIndex}`];
+    if (cell.isBlank) parts.push("blank");
+    else parts.push(value === "" || value === "-" ? "no number" : value);
+    if (cell.isBlocked && !cell.isBlank) parts.push("blocked");
+    if (stateCaption && !cell.isBlank) parts.push(stateCaption);
+    if (hasNotes) parts.push("has notes");
+    if (rowSpan > 1 || colSpan > 1) parts.push(`merged ${rowSpan} by ${colSpan}`);
+    if (problems && problems.length > 0) parts.push(`invalid: ${problems.join("; ")}`);
+    return parts.join(", ");
 };
 
-// ── Helper: check if a string value is an integer ────────────────────────────
-const isInteger = (val: string): boolean => {
-    const trimmed = val.trim();
-    return trimmed !== "" && trimmed !== "-" && /^-?\d+$/.test(trimmed);
-};
+// Picker option that clears the state; keys are trimmed, so it cannot collide
+const CLEAR_STATE_OPTION = " clear";
 
-// ── Helper: a cell is fillable if visible (not blank, not hidden non-anchor) ──
-const isFillable = (cell: CellObject, mergeSpans: Record<string, MergeSpanInfo>): boolean => {
-    if (cell.isBlank) return false;
-    if (isCellHidden(cell, mergeSpans)) return false;
-    return true;
+// ── Helper: configured state icon, or the caption's first letter without one ──
+const renderStateIcon = (icon: WebIcon | undefined, caption: string): ReactElement => {
+    if (icon?.type === "image") return <img src={icon.iconUrl} alt="" />;
+    if (icon?.type === "glyph") return <span className={classNames("glyphicon", icon.iconClass)} />;
+    if (icon?.type === "icon") return <span className={icon.iconClass} />;
+    return <span className="tableview-state-letter">{caption.charAt(0).toUpperCase()}</span>;
 };
 
-// ── Helper: get cells that would be autofilled — always incrementing ──────────
-const getAutofillCells = (
-    tableRows: TableRow[],
-    mergeSpans: Record<string, MergeSpanInfo>,
-    sourceRow: number,
-    sourceCol: number,
-    targetRow: number,
-    targetCol: number,
-    direction: "horizontal" | "vertical" | null
-): Array<{ row: number; col: number; value: number }> => {
-    if (!direction) return [];
-    const result: Array<{ row: number; col: number; value: number }> = [];
-
-    const getCell = (r: number, c: number): CellObject | undefined =>
-        tableRows.find(row => row.rowIndex === r)?.cells.find(cell => cell.columnIndex === c);
-
-    const sourceCell = getCell(sourceRow, sourceCol);
-    if (!sourceCell || !isInteger(sourceCell.sequenceNumber)) return [];
-    const startVal = parseInt(sourceCell.sequenceNumber, 10);
-
-    if (direction === "horizontal") {
-        const minCol = Math.min(sourceCol, targetCol);
-        const maxCol = Math.max(sourceCol, targetCol);
-        const goRight = targetCol > sourceCol;
-        let counter = 1;
-        if (goRight) {
-            for (let c = sourceCol + 1; c <= maxCol; c++) {
-                const cell = getCell(sourceRow, c);
-                if (!cell || !isFillable(cell, mergeSpans)) break;
-                result.push({ row: sourceRow, col: c, value: startVal + counter });
-                counter++;
-            }
-        } else {
-            for (let c = sourceCol - 1; c >= minCol; c--) {
-                const cell = getCell(sourceRow, c);
-                if (!cell || !isFillable(cell, mergeSpans)) break;
-                result.push({ row: sourceRow, col: c, value: startVal + counter });
-                counter++;
-            }
-        }
-    } else {
-        const minRow = Math.min(sourceRow, targetRow);
-        const maxRow = Math.max(sourceRow, targetRow);
-        const goDown = targetRow > sourceRow;
-        let counter = 1;
-        if (goDown) {
-            for (let r = sourceRow + 1; r <= maxRow; r++) {
-                const cell = getCell(r, sourceCol);
-                if (!cell || !isFillable(cell, mergeSpans)) break;
-                result.push({ row: r, col: sourceCol, value: startVal + counter });
-                counter++;
-            }
-        } else {
-            for (let r = sourceRow - 1; r >= minRow; r--) {
-                const cell = getCell(r, sourceCol);
-                if (!cell || !isFillable(cell, mergeSpans)) break;
-                result.push({ row: r, col: sourceCol, value: startVal + counter });
-                counter++;
+const layoutToTableRows = (layout: Layout): TableRow[] => {
+    const rows = growTableRows([], layout.rows, layout.columns);
+    const getCell = (r: number, c: number): CellObject | undefined => rows[r - 1]?.cells[c - 1];
+    layout.cells.forEach(source => {
+        const cell = getCell(source.row, source.column);
+        if (!cell) return;
+        cell.sequenceNumber = source.value === "" ? "-" : source.value;
+        cell.isBlocked = source.isBlocked;
+        cell.isBlank = source.isBlank;
+    });
+    layout.merges.forEach(range => {
+        if (range.bottom > layout.rows || range.right > layout.columns) return;
+        if (range.top === range.bottom && range.left === range.right) return;
+        const anchor = getCell(range.top, range.left);
+        if (!anchor) return;
+        // A range overlapping an earlier merge is dropped rather than producing an L-shaped group
+        for (let r = range.top; r <= range.bottom; r++)
+            for (let c = range.left; c <= range.right; c++)
+                if (getCell(r, c)?.isMerged) return;
+        const mergeId = createMergeId(range.top, range.left, range.bottom, range.right);
+        for (let r = range.top; r <= range.bottom; r++) {
+            for (let c = range.left; c <= range.right; c++) {
+                const cell = getCell(r, c);
+                if (!cell) continue;
+                cell.sequenceNumber = anchor.sequenceNumber;
+                cell.isBlocked = anchor.isBlocked;
+                cell.isBlank = anchor.isBlank;
+                cell.isMerged = true;
+                cell.mergeId = mergeId;
             }
         }
-    }
-    return result;
+    });
+    return rows;
 };
 
 const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
@@ -204,30 +263,288 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
     const preSelectionRef = useRef<Set<string>>(new Set());
 
     // ── Autofill drag state ───────────────────────────────────────────────────
-    const [autofillDrag, setAutofillDrag] = useState<AutofillDragState>({
-        active: false,
-        sourceRow: 0,
-        sourceCol: 0,
-        sourceValue: 0,
-        direction: null,
-        currentRow: 0,
-        currentCol: 0
-    });
+    const [autofillDrag, setAutofillDrag] = useState<AutofillDragState>(IDLE_AUTOFILL);
     const autofillDragRef = useRef<AutofillDragState>(autofillDrag);
     autofillDragRef.current = autofillDrag;
     const [autofillPreviewCells, setAutofillPreviewCells] = useState<Set<string>>(new Set());
 
+    // ── Keyboard focus (roving tabindex) ──────────────────────────────────────
+    const [focusedCell, setFocusedCell] = useState<{ row: number; col: number } | null>(null);
+    const keyboardAnchorRef = useRef<{ row: number; col: number } | null>(null);
+    const editStartValueRef = useRef<string>("");
+    const tableRef = useRef<HTMLTableElement>(null);
+
+    // ── Virtualised rendering ─────────────────────────────────────────────────
+    const tableWrapperRef = useRef<HTMLDivElement>(null);
+    const isVirtual = !!props.enableVirtualization;
+    const { range: gridWindow, scrollToCell } = useVirtualGrid(
+        tableWrapperRef,
+        isVirtual,
+        tableRows.length,
+        tableRows[0]?.cells.length ?? 0,
+        mergeSpans
+    );
+    const pendingFocusRef = useRef<CellPosition | null>(null);
+
+    // ── Screen-reader announcements (live region) ─────────────────────────────
+    const [announcement, setAnnouncement] = useState<string>("");
+    // A trailing no-break space makes a repeated message count as new text
+    const announce = useCallback((message: string) => {
+        setAnnouncement(previous => (previous === message ? `${message}\u00a0` : message));
+    }, []);
+
+    // ── Header labels ─────────────────────────────────────────────────────────
+    const [headerLabels, setHeaderLabels] = useState<HeaderLabels>(EMPTY_HEADER_LABELS);
+    // Read by saves and history records made inside state updaters
+    const headerLabelsRef = useRef<HeaderLabels>(headerLabels);
+    const applyHeaderLabels = useCallback((labels: HeaderLabels) => {
+        headerLabelsRef.current = labels;
+        setHeaderLabels(labels);
+    }, []);
+    const rowLabelScheme = props.rowLabelScheme ?? "letters";
+    const columnLabelScheme = props.columnLabelScheme ?? "numbers";
+    const rowLabels = useMemo(
+        () => resolveHeaderLabels(headerLabels.rows, tableRows.length, rowLabelScheme),
+        [headerLabels.rows, tableRows.length, rowLabelScheme]
+    );
+    const columnLabels = useMemo(
+        () => resolveHeaderLabels(headerLabels.columns, tableRows[0]?.cells.length ?? 0, columnLabelScheme),
+        [headerLabels.columns, tableRows, columnLabelScheme]
+    );
+    const [editingHeader, setEditingHeader] = useState<{ axis: HeaderAxis; index: number } | null>(null);
+
     const [isInitialLoad, setIsInitialLoad] = useState<boolean>(true);
     const [isSaving, setIsSaving] = useState<boolean>(false);
     const [dataLoaded, setDataLoaded] = useState<boolean>(false);
     const lastSavedDataRef = useRef<string>("");
+    const tableRowsRef = useRef<TableRow[]>(tableRows);
+    tableRowsRef.current = tableRows;
     const isUserInputRef = useRef<boolean>(false);
     const ignoreAttributeUpdateRef = useRef<boolean>(false);
 
+    // ── Cell events ───────────────────────────────────────────────────────────
+    // The context attributes are written before the action runs, so the microflow knows which cell it is about
+    const writeCellContext = useCallback(
+        (cell: CellObject, oldValue: string, newValue: string) => {
+            const { rowIndex: row, columnIndex: col } = cell;
+            writeAttribute(props.clickedCellLabelAttribute, formatCellLabel(rowLabels[row - 1] ?? String(row), columnLabels[col - 1] ?? String(col)));
+            writeAttribute(props.contextRowAttribute, new Big(row));
+            writeAttribute(props.contextColumnAttribute, new Big(col));
+            writeAttribute(props.contextCellIdAttribute, cell.id);
+            writeAttribute(props.contextOldValueAttribute, oldValue);
+            writeAttribute(props.contextNewValueAttribute, newValue);
+            writeAttribute(props.contextBlockedAttribute, cell.isBlocked);
+            writeAttribute(props.contextBlankAttribute, cell.isBlank);
+            writeAttribute(props.contextMergeGroupAttribute, cell.isMerged ? cell.mergeId : "");
+        },
+        [
+            props.clickedCellLabelAttribute,
+            props.contextRowAttribute,
+            props.contextColumnAttribute,
+            props.contextCellIdAttribute,
+            props.contextOldValueAttribute,
+            props.contextNewValueAttribute,
+            props.contextBlockedAttribute,
+            props.contextBlankAttribute,
+            props.contextMergeGroupAttribute,
+            rowLabels,
+            columnLabels
+        ]
+    );
+
+    // rows is passed by changes that have not rendered yet
+    const notifyCellClick = useCallback(
+        (row: number, col: number, rows: TableRow[] = tableRowsRef.current) => {
+            const cell = getCellAt(rows, row, col);
+            if (cell) writeCellContext(cell, cell.sequenceNumber, cell.sequenceNumber);
+            if (props.onCellClick?.canExecute) props.onCellClick.execute();
+        },
+        [writeCellContext, props.onCellClick]
+    );
+
+    // Without its own action a value change runs On cell click, as it always did
+    const notifyCellValueChange = useCallback(
+        (cell: CellObject, oldValue: string) => {
+            writeCellContext(cell, oldValue, cell.sequenceNumber);
+            const action = props.onCellValueChange ?? props.onCellClick;
+            if (action?.canExecute) action.execute();
+        },
+        [writeCellContext, props.onCellValueChange, props.onCellClick]
+    );
+
+    // ── Size limits ───────────────────────────────────────────────────────────
+    const maxRows = Math.max(1, props.maxRows ?? 100);
+    const maxColumns = Math.max(1, props.maxColumns ?? 100);
+
+    // ── Feedback ──────────────────────────────────────────────────────────────
+    const {
+        messages: feedbackMessages,
+        report: reportFeedback,
+        ask: askFeedback,
+        answer: answerFeedback,
+        dismiss: dismissFeedback
+    } = useFeedback(props.messageAttribute, props.onError);
+    // Read when a message is shown, so callbacks don't depend on every template
+    const messageTemplatesRef = useRef<MessageTemplates>({});
+    messageTemplatesRef.current = {
+        invalidNumbers: props.invalidNumbersMessage,
+        nonPositiveSize: props.nonPositiveSizeMessage,
+        sizeLimit: props.sizeLimitMessage,
+        maxRows: props.maxRowsMessage,
+        maxColumns: props.maxColumnsMessage,
+        minRows: props.minRowsMessage,
+        minColumns: props.minColumnsMessage,
+        mergeNotRectangular: props.mergeNotRectangularMessage,
+        exportFailed: props.exportFailedMessage,
+        printFailed: props.printFailedMessage,
+        diagramSaveFailed: props.diagramSaveFailedMessage,
+        importEmpty: props.importEmptyMessage,
+        importFailed: props.importFailedMessage,
+        templateInvalid: props.templateInvalidMessage,
+        templateNotSaved: props.templateNotSavedMessage,
+        confirmImport: props.confirmImportMessage,
+        confirmApplyTemplate: props.confirmApplyTemplateMessage,
+        confirmOverwriteTemplate: props.confirmOverwriteTemplateMessage,
+        confirmGrowPaste: props.confirmGrowPasteMessage
+    };
+    const showMessage = useCallback(
+        (key: MessageKey, params?: Record<string, string | number>, severity: FeedbackSeverity = "error") =>
+            reportFeedback(severity, formatMessage(messageTemplatesRef.current, key, params)),
+        [reportFeedback]
+    );
+    // The table may change while a question is open, so answers work on the current state
+    const askMessage = useCallback(
+        (key: MessageKey, params: Record<string, string | number>, onConfirm: () => void, onCancel?: () => void) =>
+            askFeedback(formatMessage(messageTemplatesRef.current, key, params), onConfirm, onCancel),
+        [askFeedback]
+    );
+
+    // ── Cell state catalogue ──────────────────────────────────────────────────
+    const cellStates = useMemo(
+        () =>
+            (props.cellStates ?? [])
+                .map(state => ({ ...state, stateKey: state.stateKey.trim() }))
+                .filter(state => state.stateKey !== ""),
+        [props.cellStates]
+    );
+    const stateByKey = useMemo(() => new Map(cellStates.map(state => [state.stateKey, state])), [cellStates]);
+    const inactiveStates = useMemo(
+        () => new Set(cellStates.filter(state => !state.stateCountsAsActive).map(state => state.stateKey)),
+        [cellStates]
+    );
+
+    // ── Cell details (notes and metadata fields) ──────────────────────────────
+    const metadataFields = useMemo<CellField[]>(
+        () =>
+            (props.metadataFields ?? [])
+                .map(field => ({
+                    key: field.fieldKey.trim(),
+                    caption: field.fieldCaption || field.fieldKey.trim(),
+                    type: field.fieldType,
+                    options: (field.fieldOptions ?? "").split(",").map(option => option.trim()).filter(option => option !== "")
+                }))
+                .filter(field => field.key !== "" && field.key !== NOTES_KEY),
+        [props.metadataFields]
+    );
+    const hasNotesEnabled = !!props.enableCellNotes;
+    const hasCellDetails = hasNotesEnabled || metadataFields.length > 0;
+
+    // ── Storage mode ──────────────────────────────────────────────────────────
+    const isObjectMode = props.dataSourceMode === "objects";
+    const { cellDataSource, cellRowAttribute, cellColumnAttribute, cellNumberAttribute, cellBlockedAttribute } = props;
+    const cellBinding = useMemo<CellBinding | null>(() => {
+        if (!isObjectMode || !cellDataSource || !cellRowAttribute || !cellColumnAttribute || !cellNumberAttribute || !cellBlockedAttribute) {
+            return null;
+        }
+        return {
+            datasource: cellDataSource,
+            row: cellRowAttribute,
+            column: cellColumnAttribute,
+            number: cellNumberAttribute,
+            blocked: cellBlockedAttribute,
+            blank: props.cellBlankAttribute,
+            mergeGroup: props.cellMergeGroupAttribute,
+            state: props.cellStateAttribute,
+            metadata: props.cellMetadataAttribute
+        };
+    }, [
+        isObjectMode,
+        cellDataSource,
+        cellRowAttribute,
+        cellColumnAttribute,
+        cellNumberAttribute,
+        cellBlockedAttribute,
+        props.cellBlankAttribute,
+        props.cellMergeGroupAttribute,
+        props.cellStateAttribute,
+        props.cellMetadataAttribute
+    ]);
+    // Set while the grid has cells without an object, until the sync action has created them
+    const pendingCellWriteRef = useRef<boolean>(false);
+
+    // ── Layout templates ──────────────────────────────────────────────────────
+    const isTemplateObjectMode = props.templateSource === "objects";
+    const { templateDataSource, templateNameAttribute, templateDataAttribute } = props;
+    const templates = useMemo<LayoutTemplate[]>(() => {
+        if (!isTemplateObjectMode) return parseTemplateList(props.templatesAttribute?.value ?? "");
+        if (!templateDataSource || !templateNameAttribute || !templateDataAttribute) return [];
+        const binding: TemplateBinding = { datasource: templateDataSource, name: templateNameAttribute, data: templateDataAttribute };
+        return readTemplateItems(binding) ?? [];
+    }, [isTemplateObjectMode, props.templatesAttribute?.value, templateDataSource, templateNameAttribute, templateDataAttribute]);
+    const [selectedTemplate, setSelectedTemplate] = useState<string>("");
+    const [templateName, setTemplateName] = useState<string>("");
+
+    // ── Undo / redo ───────────────────────────────────────────────────────────
+    const {
+        canUndo,
+        canRedo,
+        undoLabel,
+        redoLabel,
+        record: recordSnapshot,
+        undo: popUndo,
+        redo: popRedo,
+        breakCoalescing,
+        clear: clearHistory
+    } = useTableHistory<TableSnapshot>();
+
+    // Labels default to the current ones; pass them when they change in the same step
+    const recordHistory = useCallback(
+        (rows: TableRow[], label: string, coalesceKey?: string, labels: HeaderLabels = headerLabelsRef.current) =>
+            recordSnapshot({ rows, headerLabels: labels }, label, coalesceKey),
+        [recordSnapshot]
+    );
+
     // ── Feature flags ─────────────────────────────────────────────────────────
-    const hasBlankingEnabled = !!(props as any).enableCellBlanking;
-    const hasMergingEnabled = !!props.enableCellMerging;
-    const isSelectionAllowed = hasMergingEnabled || hasBlankingEnabled;
+    // ── Display mode ──────────────────────────────────────────────────────────
+    // Read-only when configured so, when the condition holds, or when the
+    // storage can't be written (attribute not editable for this user/page), or
+    // when the stored data comes from a newer widget version
+    const [isDataLocked, setIsDataLocked] = useState<boolean>(false);
+    const isStorageReadOnly = isObjectMode
+        ? !!cellBinding?.datasource.items?.length && cellBinding.number.get(cellBinding.datasource.items[0]).readOnly
+        : props.useAttributeData?.status === "available" && props.useAttributeData.readOnly;
+    const isReadOnly =
+        props.displayMode === "readOnly" ||
+        (props.displayMode === "conditional" && props.readOnlyCondition?.value === true) ||
+        isStorageReadOnly ||
+        isDataLocked;
+
+    const isBlankingConfigured = !!(props as any).enableCellBlanking;
+    const hasBlankingEnabled = isBlankingConfigured && !isReadOnly;
+    const hasMergingEnabled = !!props.enableCellMerging && !isReadOnly;
+    const hasStructureEditingEnabled = !!props.showInsertDeleteButtons && !isReadOnly;
+    const hasStatePickerEnabled = cellStates.length > 0 && !isReadOnly;
+    const canEditCells = props.enableCellEditing && !isReadOnly;
+    const canToggleBlocked = props.enableCheckbox && !isReadOnly;
+    // Read-only grids keep single-cell selection so On cell click knows which cell was clicked
+    const isSelectionAllowed =
+        hasMergingEnabled ||
+        hasBlankingEnabled ||
+        hasStructureEditingEnabled ||
+        hasStatePickerEnabled ||
+        !!props.selectedCellsAttribute ||
+        !!props.onSelectionChange ||
+        (isReadOnly && !!props.onCellClick);
 
     // ── Keep mergeSpans in sync whenever tableRows change ─────────────────────
     useEffect(() => {
@@ -236,102 +553,169 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
 
     // ── Statistics ────────────────────────────────────────────────────────────
     const updateCellStatistics = useCallback(
-        (rows: TableRow[], spans: Record<string, MergeSpanInfo>) => {
-            const totalCells = rows.reduce((sum, row) => sum + row.cells.length, 0);
-            const blockedCells = rows.reduce((sum, row) => sum + row.cells.filter(c => c.isBlocked).length, 0);
-            const mergedCells = rows.reduce(
-                (sum, row) => sum + row.cells.filter(c => c.isMerged && !isCellHidden(c, spans)).length,
-                0
-            );
-            const blankCells = rows.reduce(
-                (sum, row) => sum + row.cells.filter(c => c.isBlank && !isCellHidden(c, spans)).length,
-                0
-            );
-
+        (rows: TableRow[]) => {
+            const { totalCells, blockedCells, mergedCells, blankCells } = getTableStatistics(rows);
             if (props.totalCellsAttribute?.status === "available") props.totalCellsAttribute.setValue(new Big(totalCells));
             if (props.blockedCellsAttribute?.status === "available") props.blockedCellsAttribute.setValue(new Big(blockedCells));
             if (props.mergedCellsAttribute?.status === "available") props.mergedCellsAttribute.setValue(new Big(mergedCells));
             if ((props as any).blankCellsAttribute?.status === "available") (props as any).blankCellsAttribute.setValue(new Big(blankCells));
+            if (props.activeCellsAttribute?.status === "available") {
+                props.activeCellsAttribute.setValue(new Big(getActiveCellCount(rows, inactiveStates)));
+            }
+            const stateCounts = getStateCounts(rows);
+            cellStates.forEach(state => {
+                if (state.stateCountAttribute?.status === "available") {
+                    state.stateCountAttribute.setValue(new Big(stateCounts[state.stateKey] ?? 0));
+                }
+            });
         },
-        [props.totalCellsAttribute, props.blockedCellsAttribute, props.mergedCellsAttribute]
+        [props.totalCellsAttribute, props.blockedCellsAttribute, props.mergedCellsAttribute, props.activeCellsAttribute, cellStates, inactiveStates]
+    );
+
+    // ── Data problems (schema validation on load) ─────────────────────────────
+    const [dataProblems, setDataProblems] = useState<SchemaProblem[]>([]);
+    const loadFailedRef = useRef<boolean>(false);
+
+    const reportDataProblems = useCallback(
+        (problems: SchemaProblem[]) => {
+            setDataProblems(problems);
+            if (props.dataProblemsAttribute?.status === "available" && !props.dataProblemsAttribute.readOnly) {
+                const message = problems.map(p => `${p.severity === "error" ? "Error" : "Repaired"}: ${p.message}`).join("\n");
+                if ((props.dataProblemsAttribute.value ?? "") !== message) props.dataProblemsAttribute.setValue(message);
+            }
+        },
+        [props.dataProblemsAttribute]
     );
 
     // ── Load data ─────────────────────────────────────────────────────────────
+    // Shared by both storage modes; returns false when nothing could be loaded
+    const applyLoadResult = ({ data: tableData, problems, changed, readOnly }: ParseResult): boolean => {
+        reportDataProblems(problems);
+        if (!tableData) {
+            // Keep the stored data untouched so it can be fixed; don't replace it with a default table
+            loadFailedRef.current = true;
+            return false;
+        }
+        loadFailedRef.current = false;
+        setIsDataLocked(readOnly);
+        const validatedRows = tableData.tableRows;
+
+        setRowCount(tableData.rows);
+        setColumnCount(tableData.columns);
+        ignoreAttributeUpdateRef.current = true;
+        if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(tableData.rows));
+        if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(tableData.columns));
+
+        const spans = computeMergeSpans(validatedRows);
+        setMergeSpans(spans);
+        setTableRows(validatedRows);
+        applyHeaderLabels(tableData.headerLabels ?? EMPTY_HEADER_LABELS);
+        clearHistory();
+        setSelectedCells(new Set());
+        setIsSelectionMode(false);
+        setDataLoaded(true);
+        updateCellStatistics(validatedRows);
+        // Loaded data replaces anything still pending; only migrations and repairs are written back
+        window.clearTimeout(autoSaveTimerRef.current);
+        pendingSaveRef.current = null;
+        setIsDirty(false);
+        if (changed && !readOnly) saveToBackend(validatedRows, tableData.rows, tableData.columns);
+        return true;
+    };
+
     useEffect(() => {
-        if (isSaving) return;
+        if (isSaving || isObjectMode) return;
         const incomingData = props.useAttributeData?.value || "";
         if (incomingData === lastSavedDataRef.current && lastSavedDataRef.current !== "") return;
 
         if (incomingData && incomingData !== "") {
-            try {
-                const tableData: TableData = JSON.parse(incomingData);
-                if (tableData.tableRows && tableData.rows > 0 && tableData.columns > 0) {
-                    const validatedRows = tableData.tableRows.map((row, idx) => {
-                        const rowIndex = idx + 1;
-                        return {
-                            ...row,
-                            id: `row_${rowIndex}`,
-                            rowIndex,
-                            cells: row.cells.map((cell, cIdx) => {
-                                const colIndex = cIdx + 1;
-                                const seqNum = cell.sequenceNumber || "-";
-                                const validatedCell: CellObject = {
-                                    id: `cell_${rowIndex}_${colIndex}`,
-                                    sequenceNumber: seqNum,
-                                    isBlocked: cell.isBlocked !== undefined ? cell.isBlocked : false,
-                                    isMerged: cell.isMerged || false,
-                                    mergeId: cell.mergeId || "",
-                                    isBlank: cell.isBlank || false,
-                                    rowIndex,
-                                    columnIndex: colIndex
-                                };
-                                return validatedCell;
-                            })
-                        };
-                    });
-
-                    setRowCount(tableData.rows);
-                    setColumnCount(tableData.columns);
-                    ignoreAttributeUpdateRef.current = true;
-                    if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(tableData.rows));
-                    if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(tableData.columns));
-
-                    const spans = computeMergeSpans(validatedRows);
-                    setMergeSpans(spans);
-                    setTableRows(validatedRows);
-                    setSelectedCells(new Set());
-                    setIsSelectionMode(false);
-                    setDataLoaded(true);
-                    updateCellStatistics(validatedRows, spans);
-                    saveToBackend(validatedRows, tableData.rows, tableData.columns);
-                    if (isInitialLoad) setTimeout(() => setIsInitialLoad(false), 500);
-                }
-            } catch (error) {
-                console.error("Error loading table from attribute:", error);
-                if (isInitialLoad) setTimeout(() => setIsInitialLoad(false), 500);
-            }
-        } else {
-            if (isInitialLoad) setTimeout(() => setIsInitialLoad(false), 500);
+            // A write-back below replaces this with the saved JSON
+            lastSavedDataRef.current = incomingData;
+            applyLoadResult(parseTableData(incomingData, maxRows, maxColumns));
+        }
+        if (isInitialLoad) setTimeout(() => setIsInitialLoad(false), 500);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [props.useAttributeData?.value, updateCellStatistics, isSaving, isInitialLoad, props.rowCountAttribute, props.columnCountAttribute, clearHistory, reportDataProblems]);
+
+    // ── Load data: cell objects ───────────────────────────────────────────────
+    // Key of the cells last loaded from or written to the objects; a refresh
+    // that reads them back unchanged is not loaded again
+    const lastCellRecordsKeyRef = useRef<string>("");
+    const applyLoadResultRef = useRef(applyLoadResult);
+    applyLoadResultRef.current = applyLoadResult;
+    const storedRowCount = props.rowCountAttribute?.value;
+    const storedColumnCount = props.columnCountAttribute?.value;
+    const storedHeaderLabels = props.headerLabelsAttribute?.value;
+    useEffect(() => {
+        if (!isObjectMode) return;
+        if (!cellBinding) {
+            loadFailedRef.current = true;
+            reportDataProblems([{
+                severity: "error",
+                message: "Cell objects storage needs the Cell objects data source with Row, Column, Number and Blocked attributes"
+            }]);
+            return;
+        }
+        // A refresh must not wipe changes that have not been written to the objects yet
+        if (isSaving || pendingSaveRef.current) return;
+        const records = readCellRecords(cellBinding);
+        if (!records) return;
+
+        // Objects created by the sync action start empty: fill them from the grid instead of loading them
+        if (pendingCellWriteRef.current) {
+            pendingCellWriteRef.current = writeCellRecords(cellBinding, tableRowsRef.current).missing > 0;
+            return;
+        }
+
+        // Without count attributes the objects decide the size; an empty list starts a default table
+        const size =
+            storedRowCount != null && storedColumnCount != null
+                ? { rows: Number(storedRowCount), columns: Number(storedColumnCount) }
+                : records.length === 0
+                    ? { rows: rowCount, columns: columnCount }
+                    : null;
+        const result = recordsToTableData(records, size, maxRows, maxColumns);
+        if (result.data) {
+            const key = getCellRecordsKey(cellBinding, result.data.tableRows);
+            if (key === lastCellRecordsKeyRef.current) return;
+            lastCellRecordsKeyRef.current = key;
+            // Cell objects carry no headers; renamed ones are kept in their own attribute
+            result.data.headerLabels = parseHeaderLabels(storedHeaderLabels ?? "");
+            // Discard returns to what was loaded; a write-back below replaces it with the saved JSON
+            lastSavedDataRef.current = serializeTable(result.data.tableRows, undefined, result.data.headerLabels);
         }
-    }, [props.useAttributeData?.value, updateCellStatistics, isSaving, isInitialLoad, props.rowCountAttribute, props.columnCountAttribute]);
+        applyLoadResultRef.current(result);
+        if (isInitialLoad) setTimeout(() => setIsInitialLoad(false), 500);
+    }, [
+        isObjectMode,
+        cellBinding,
+        isSaving,
+        isInitialLoad,
+        storedRowCount,
+        storedColumnCount,
+        storedHeaderLabels,
+        rowCount,
+        columnCount,
+        maxRows,
+        maxColumns,
+        reportDataProblems
+    ]);
 
     useEffect(() => {
         if (ignoreAttributeUpdateRef.current) { ignoreAttributeUpdateRef.current = false; return; }
         if (props.rowCountAttribute?.status === "available" && props.rowCountAttribute.value != null) {
             const v = Number(props.rowCountAttribute.value);
-            if (!isNaN(v) && v > 0 && v <= 100 && v !== rowCount && !isUserInputRef.current) setRowCount(v);
+            if (!isNaN(v) && v > 0 && v <= maxRows && v !== rowCount && !isUserInputRef.current) setRowCount(v);
         }
-    }, [props.rowCountAttribute?.value, rowCount]);
+    }, [props.rowCountAttribute?.value, rowCount, maxRows]);
 
     useEffect(() => {
         if (ignoreAttributeUpdateRef.current) { ignoreAttributeUpdateRef.current = false; return; }
         if (props.columnCountAttribute?.status === "available" && props.columnCountAttribute.value != null) {
             const v = Number(props.columnCountAttribute.value);
-            if (!isNaN(v) && v > 0 && v <= 100 && v !== columnCount && !isUserInputRef.current) setColumnCount(v);
+            if (!isNaN(v) && v > 0 && v <= maxColumns && v !== columnCount && !isUserInputRef.current) setColumnCount(v);
         }
-    }, [props.columnCountAttribute?.value, columnCount]);
-
-    const createMergeId = (r1: number, c1: number, r2: number, c2: number) => `${r1}${c1}${r2}${c2}`;
+    }, [props.columnCountAttribute?.value, columnCount, maxColumns]);
 
     // ── Reset drag state ───────────────────────────────────────────────────────
     const resetDragState = useCallback(() => {
@@ -341,78 +725,142 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
         preSelectionRef.current = new Set();
     }, []);
 
+    // ── Save ──────────────────────────────────────────────────────────────────
+    // saveToBackend commits: it writes the table and runs On table change. User
+    // edits go through queueSave, which holds them until they are committed.
+    const [isDirty, setIsDirty] = useState<boolean>(false);
+    const pendingSaveRef = useRef<PendingSave | null>(null);
+    const autoSaveTimerRef = useRef<number | undefined>(undefined);
+    const autoSaveDelay = Math.max(0, props.autoSaveDelay ?? 500);
+
+    const saveToBackend = useCallback(
+        (rows: TableRow[], rowCnt: number, colCnt: number) => {
+            // Whatever was pending is superseded by this commit
+            window.clearTimeout(autoSaveTimerRef.current);
+            pendingSaveRef.current = null;
+            setIsDirty(false);
+            const jsonData = serializeTable(rows, undefined, headerLabelsRef.current);
+            lastSavedDataRef.current = jsonData;
+            // Nothing is written back in read-only mode, including repairs made on load
+            if (isReadOnly) return;
+            setIsSaving(true);
+            if (props.headerLabelsAttribute?.status === "available" && !props.headerLabelsAttribute.readOnly) {
+                const labels = compactHeaderLabels(headerLabelsRef.current, rowCnt, colCnt);
+                const labelsJson = labels ? JSON.stringify(labels) : "";
+                if ((props.headerLabelsAttribute.value ?? "") !== labelsJson) props.headerLabelsAttribute.setValue(labelsJson);
+            }
+            if (!isObjectMode && props.useAttributeData?.status === "available") props.useAttributeData.setValue(jsonData);
+            if (props.tableDataAttribute?.status === "available") props.tableDataAttribute.setValue(jsonData);
+            ignoreAttributeUpdateRef.current = true;
+            if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(rowCnt));
+            if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(colCnt));
+            if (cellBinding) {
+                lastCellRecordsKeyRef.current = getCellRecordsKey(cellBinding, rows);
+                // Row/column counts are written first so the sync action sees the new size
+                const { missing, extra } = writeCellRecords(cellBinding, rows);
+                pendingCellWriteRef.current = missing > 0;
+                if ((missing > 0 || extra > 0) && props.onSyncCells?.canExecute) props.onSyncCells.execute();
+            }
+            updateCellStatistics(rows);
+            if (props.onTableChange?.canExecute) props.onTableChange.execute();
+            setTimeout(() => setIsSaving(false), 100);
+        },
+        [
+            isReadOnly,
+            isObjectMode,
+            cellBinding,
+            props.useAttributeData,
+            props.tableDataAttribute,
+            props.rowCountAttribute,
+            props.columnCountAttribute,
+            props.headerLabelsAttribute,
+            props.onSyncCells,
+            props.onTableChange,
+            updateCellStatistics
+        ]
+    );
+
     // ── Create table ──────────────────────────────────────────────────────────
     const createNewTable = useCallback((rows: number, cols: number) => {
         if (rows <= 0 || cols <= 0) return;
-        const newTableRows: TableRow[] = Array.from({ length: rows }, (_, idx) => {
-            const rowIndex = idx + 1;
-            return {
-                id: `row_${rowIndex}`,
-                rowIndex,
-                cells: Array.from({ length: cols }, (_, cIdx) => {
-                    const colIndex = cIdx + 1;
-                    return {
-                        id: `cell_${rowIndex}_${colIndex}`,
-                        sequenceNumber: "-",
-                        isBlocked: false,
-                        isMerged: false,
-                        mergeId: "",
-                        isBlank: false,
-                        rowIndex,
-                        columnIndex: colIndex
-                    };
-                })
-            };
-        });
+        const newTableRows = createTable(rows, cols);
         const spans = computeMergeSpans(newTableRows);
+        if (tableRowsRef.current.length > 0) recordHistory(tableRowsRef.current, "Generate table");
         setMergeSpans(spans);
         setTableRows(newTableRows);
+        applyHeaderLabels(EMPTY_HEADER_LABELS);
         setSelectedCells(new Set());
         setIsSelectionMode(false);
         setDataLoaded(true);
+        loadFailedRef.current = false;
         saveToBackend(newTableRows, rows, cols);
-    }, []);
+    }, [recordHistory, applyHeaderLabels, saveToBackend]);
 
     useEffect(() => {
         const timer = setTimeout(() => {
-            if (!dataLoaded && tableRows.length === 0) createNewTable(rowCount, columnCount);
+            // Cell objects mode builds its table from the data source instead
+            if (!dataLoaded && tableRows.length === 0 && !loadFailedRef.current && !isObjectMode) createNewTable(rowCount, columnCount);
         }, 100);
         return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [dataLoaded]);
 
-    // ── Save ──────────────────────────────────────────────────────────────────
-    const saveToBackend = useCallback(
-        (rows: TableRow[], rowCnt: number, colCnt: number) => {
-            setIsSaving(true);
-            const tableData: TableData = {
-                rows: rowCnt,
-                columns: colCnt,
-                tableRows: rows,
-                metadata: { updatedAt: new Date().toISOString() }
-            };
-            const jsonData = JSON.stringify(tableData);
-            lastSavedDataRef.current = jsonData;
-            if (props.useAttributeData?.status === "available") props.useAttributeData.setValue(jsonData);
-            if (props.tableDataAttribute?.status === "available") props.tableDataAttribute.setValue(jsonData);
-            ignoreAttributeUpdateRef.current = true;
-            if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(rowCnt));
-            if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(colCnt));
-            const spans = computeMergeSpans(rows);
-            updateCellStatistics(rows, spans);
-            if (props.onTableChange?.canExecute) props.onTableChange.execute();
-            setTimeout(() => setIsSaving(false), 100);
+    const commitPendingChanges = useCallback(() => {
+        const pending = pendingSaveRef.current;
+        if (pending) saveToBackend(pending.rows, pending.rowCnt, pending.colCnt);
+    }, [saveToBackend]);
+
+    // With auto save the change is committed once the user pauses; with Save
+    // buttons it waits for Save. Otherwise it is committed right away, except
+    // typing, which is committed when the cell loses focus (see finishEditing).
+    const queueSave = useCallback(
+        (rows: TableRow[], rowCnt: number, colCnt: number, isTyping = false) => {
+            pendingSaveRef.current = { rows, rowCnt, colCnt };
+            setIsDirty(true);
+            window.clearTimeout(autoSaveTimerRef.current);
+            if (props.autoSave) autoSaveTimerRef.current = window.setTimeout(commitPendingChanges, autoSaveDelay);
+            else if (!props.showSaveButtons && !isTyping) commitPendingChanges();
+        },
+        [props.autoSave, props.showSaveButtons, autoSaveDelay, commitPendingChanges]
+    );
+
+    const finishEditing = useCallback(() => {
+        breakCoalescing();
+        if (!props.autoSave && !props.showSaveButtons) commitPendingChanges();
+    }, [breakCoalescing, props.autoSave, props.showSaveButtons, commitPendingChanges]);
+
+    // One value change event per edit, when the user leaves the cell
+    const finishCellEdit = useCallback(
+        (row: number, col: number) => {
+            finishEditing();
+            const cell = getCellAt(tableRowsRef.current, row, col);
+            if (cell && cell.sequenceNumber !== editStartValueRef.current) notifyCellValueChange(cell, editStartValueRef.current);
         },
-        [props.useAttributeData, props.tableDataAttribute, props.rowCountAttribute, props.columnCountAttribute, props.onTableChange, updateCellStatistics]
+        [finishEditing, notifyCellValueChange]
     );
 
     useEffect(() => {
-        if (props.autoSave && tableRows.length > 0 && !isSaving) saveToBackend(tableRows, rowCount, columnCount);
-    }, [tableRows, props.autoSave, saveToBackend, isSaving, rowCount, columnCount]);
+        if (props.dirtyAttribute?.status === "available" && !props.dirtyAttribute.readOnly && props.dirtyAttribute.value !== isDirty) {
+            props.dirtyAttribute.setValue(isDirty);
+        }
+    }, [isDirty, props.dirtyAttribute]);
+
+    // An auto save still waiting when the widget goes away is committed, not lost
+    const commitPendingRef = useRef(commitPendingChanges);
+    commitPendingRef.current = commitPendingChanges;
+    const autoSaveRef = useRef<boolean>(props.autoSave);
+    autoSaveRef.current = props.autoSave;
+    useEffect(
+        () => () => {
+            if (autoSaveRef.current) commitPendingRef.current();
+            else window.clearTimeout(autoSaveTimerRef.current);
+        },
+        []
+    );
 
     useEffect(() => {
-        if (tableRows.length > 0) updateCellStatistics(tableRows, mergeSpans);
-    }, [tableRows, mergeSpans, updateCellStatistics]);
+        if (tableRows.length > 0) updateCellStatistics(tableRows);
+    }, [tableRows, updateCellStatistics]);
 
     // ── Dimensions ────────────────────────────────────────────────────────────
     const pendingGenerateRef = useRef<boolean>(false);
@@ -424,15 +872,15 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
             pendingGenerateRef.current = true;
             onGenerateTable.execute();
         } else {
-            if (isNaN(rowCount) || isNaN(columnCount)) { alert("Please enter valid numbers"); return; }
-            if (rowCount <= 0 || columnCount <= 0) { alert("Rows and columns must be positive numbers"); return; }
-            if (rowCount > 100 || columnCount > 100) { alert("Maximum 100 rows and 100 columns"); return; }
+            if (isNaN(rowCount) || isNaN(columnCount)) { showMessage("invalidNumbers"); return; }
+            if (rowCount <= 0 || columnCount <= 0) { showMessage("nonPositiveSize"); return; }
+            if (rowCount > maxRows || columnCount > maxColumns) { showMessage("sizeLimit", { rows: maxRows, columns: maxColumns }); return; }
             ignoreAttributeUpdateRef.current = true;
             if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(rowCount));
             if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(columnCount));
             createNewTable(rowCount, columnCount);
         }
-    }, [rowCount, columnCount, createNewTable, props.rowCountAttribute, props.columnCountAttribute]);
+    }, [rowCount, columnCount, createNewTable, props.rowCountAttribute, props.columnCountAttribute, maxRows, maxColumns, showMessage]);
 
     useEffect(() => {
         const generateResult = (props as any).generateResult;
@@ -442,9 +890,9 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
         pendingGenerateRef.current = false;
 
         if (generateResult.value === true) {
-            if (isNaN(rowCount) || isNaN(columnCount)) { alert("Please enter valid numbers"); return; }
-            if (rowCount <= 0 || columnCount <= 0) { alert("Rows and columns must be positive numbers"); return; }
-            if (rowCount > 100 || columnCount > 100) { alert("Maximum 100 rows and 100 columns"); return; }
+            if (isNaN(rowCount) || isNaN(columnCount)) { showMessage("invalidNumbers"); return; }
+            if (rowCount <= 0 || columnCount <= 0) { showMessage("nonPositiveSize"); return; }
+            if (rowCount > maxRows || columnCount > maxColumns) { showMessage("sizeLimit", { rows: maxRows, columns: maxColumns }); return; }
             ignoreAttributeUpdateRef.current = true;
             if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(rowCount));
             if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(columnCount));
@@ -454,118 +902,78 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [(props as any).generateResult?.value]);
 
+    // ── Cell changes ──────────────────────────────────────────────────────────
+    // setTableRows updaters must stay pure (StrictMode runs them twice), so a
+    // change is computed from the current rows and recorded and saved here
+    const commitCellChange = useCallback(
+        (newRows: TableRow[], label: string, coalesceKey?: string, isTyping = false) => {
+            recordHistory(tableRowsRef.current, label, coalesceKey);
+            // Keeps a second change in the same event from starting at the old rows
+            tableRowsRef.current = newRows;
+            setTableRows(newRows);
+            updateCellStatistics(newRows);
+            queueSave(newRows, newRows.length, newRows[0]?.cells.length ?? 0, isTyping);
+        },
+        [recordHistory, updateCellStatistics, queueSave]
+    );
+
     // ── Add row ───────────────────────────────────────────────────────────────
     const addRow = useCallback(() => {
         const newRowCount = rowCount + 1;
-        if (newRowCount > 100) { alert("Maximum 100 rows"); return; }
+        if (newRowCount > maxRows) { showMessage("maxRows", { rows: maxRows }); return; }
         isUserInputRef.current = true;
         setRowCount(newRowCount);
         ignoreAttributeUpdateRef.current = true;
         if (props.rowCountAttribute?.status === "available") props.rowCountAttribute.setValue(new Big(newRowCount));
-        setTableRows(prevRows => {
-            const newRows = [...prevRows];
-            const rowIndex = newRowCount;
-            newRows.push({
-                id: `row_${rowIndex}`,
-                rowIndex,
-                cells: Array.from({ length: columnCount }, (_, cIdx) => {
-                    const colIndex = cIdx + 1;
-                    return {
-                        id: `cell_${rowIndex}_${colIndex}`,
-                        sequenceNumber: "-",
-                        isBlocked: false,
-                        isMerged: false,
-                        mergeId: "",
-                        isBlank: false,
-                        rowIndex,
-                        columnIndex: colIndex
-                    };
-                })
-            });
-            saveToBackend(newRows, newRowCount, columnCount);
-            return newRows;
-        });
+        const prevRows = tableRowsRef.current;
+        commitCellChange(insertRowAt(prevRows, prevRows.length + 1), "Add row");
         setTimeout(() => { isUserInputRef.current = false; }, 100);
-    }, [rowCount, columnCount, props.rowCountAttribute, saveToBackend]);
+    }, [rowCount, props.rowCountAttribute, commitCellChange, maxRows, showMessage]);
 
     // ── Add column ────────────────────────────────────────────────────────────
     const addColumn = useCallback(() => {
         const newColCount = columnCount + 1;
-        if (newColCount > 100) { alert("Maximum 100 columns"); return; }
+        if (newColCount > maxColumns) { showMessage("maxColumns", { columns: maxColumns }); return; }
         isUserInputRef.current = true;
         setColumnCount(newColCount);
         ignoreAttributeUpdateRef.current = true;
         if (props.columnCountAttribute?.status === "available") props.columnCountAttribute.setValue(new Big(newColCount));
-        setTableRows(prevRows => {
-            const newRows = prevRows.map(row => ({
-                ...row,
-                cells: [
-                    ...row.cells,
-                    {
-                        id: `cell_${row.rowIndex}_${newColCount}`,
-                        sequenceNumber: "-",
-                        isBlocked: false,
-                        isMerged: false,
-                        mergeId: "",
-                        isBlank: false,
-                        rowIndex: row.rowIndex,
-                        columnIndex: newColCount
-                    }
-                ]
-            }));
-            saveToBackend(newRows, rowCount, newColCount);
-            return newRows;
-        });
+        const prevRows = tableRowsRef.current;
+        commitCellChange(insertColumnAt(prevRows, (prevRows[0]?.cells.length ?? 0) + 1), "Add column");
         setTimeout(() => { isUserInputRef.current = false; }, 100);
-    }, [rowCount, columnCount, props.columnCountAttribute, saveToBackend]);
+    }, [columnCount, props.columnCountAttribute, commitCellChange, maxColumns, showMessage]);
 
     // ── Cell value change ─────────────────────────────────────────────────────
     const handleCellValueChange = useCallback(
         (rowIndex: number, colIndex: number, newValue: string) => {
-            setTableRows(prevRows => {
-                const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-                const targetCell = newRows.find(r => r.rowIndex === rowIndex)?.cells.find(c => c.columnIndex === colIndex);
-                if (!targetCell) return prevRows;
-                targetCell.sequenceNumber = newValue;
-                if (targetCell.mergeId && targetCell.mergeId !== "") {
-                    const mergeId = targetCell.mergeId;
-                    newRows.forEach(row => row.cells.forEach(cell => {
-                        if (cell.mergeId === mergeId) cell.sequenceNumber = newValue;
-                    }));
-                }
-                const spans = computeMergeSpans(newRows);
-                updateCellStatistics(newRows, spans);
-                if (props.autoSave) saveToBackend(newRows, rowCount, columnCount);
-                return newRows;
-            });
-            if (props.onCellClick?.canExecute) props.onCellClick.execute();
+            const newRows = setCellValue(tableRowsRef.current, rowIndex, colIndex, newValue);
+            if (newRows === tableRowsRef.current) return;
+            commitCellChange(newRows, "Edit cell", `edit_cell_${rowIndex}_${colIndex}`, true);
         },
-        [props.onCellClick, props.autoSave, updateCellStatistics, saveToBackend, rowCount, columnCount]
+        [commitCellChange]
     );
 
     // ── Checkbox (blocked toggle) ─────────────────────────────────────────────
     const handleCheckboxChange = useCallback(
         (rowIndex: number, colIndex: number) => {
-            setTableRows(prevRows => {
-                const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-                const targetCell = newRows.find(r => r.rowIndex === rowIndex)?.cells.find(c => c.columnIndex === colIndex);
-                if (!targetCell) return prevRows;
-                const newBlocked = !targetCell.isBlocked;
-                targetCell.isBlocked = newBlocked;
-                if (targetCell.mergeId && targetCell.mergeId !== "") {
-                    const mergeId = targetCell.mergeId;
-                    newRows.forEach(row => row.cells.forEach(cell => {
-                        if (cell.mergeId === mergeId) cell.isBlocked = newBlocked;
-                    }));
-                }
-                const spans = computeMergeSpans(newRows);
-                updateCellStatistics(newRows, spans);
-                if (props.autoSave) saveToBackend(newRows, rowCount, columnCount);
-                return newRows;
-            });
-            if (props.onCellClick?.canExecute) props.onCellClick.execute();
+            const prevRows = tableRowsRef.current;
+            const newRows = toggleBlocked(prevRows, rowIndex, colIndex);
+            if (newRows === prevRows) return;
+            commitCellChange(newRows, getCellAt(prevRows, rowIndex, colIndex)?.isBlocked ? "Unblock cell" : "Block cell");
+            notifyCellClick(rowIndex, colIndex, newRows);
+        },
+        [notifyCellClick, commitCellChange]
+    );
+
+    // ── Cell details ──────────────────────────────────────────────────────────
+    const handleMetadataChange = useCallback(
+        (rowIndex: number, colIndex: number, key: string, value: string | number | null) => {
+            const newRows = setCellMetadata(tableRowsRef.current, rowIndex, colIndex, key, value);
+            if (newRows === tableRowsRef.current) return;
+            const label = key === NOTES_KEY ? "Edit notes" : "Edit cell details";
+            commitCellChange(newRows, label, `metadata_${rowIndex}_${colIndex}_${key}`, true);
         },
-        [props.onCellClick, props.autoSave, updateCellStatistics, saveToBackend, rowCount, columnCount]
+        [commitCellChange]
     );
 
     // ── Rectangular selection ─────────────────────────────────────────────────
@@ -584,19 +992,47 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
         []
     );
 
+    // ── Pointer hit-testing ───────────────────────────────────────────────────
+    // Touch and pen pointers stay captured by the element they went down on, so
+    // the cell under a moving pointer comes from its coordinates, not enter events
+    const pointerCellRef = useRef<string | null>(null);
+
+    const cellFromPoint = useCallback((x: number, y: number): CellPosition | null => {
+        const element = document.elementFromPoint(x, y)?.closest("[data-cell-id]");
+        if (!element || !tableRef.current?.contains(element)) return null;
+        return parseCellId(element.getAttribute("data-cell-id") ?? "");
+    }, []);
+
+    // Returns the cell only when the pointer has moved onto a different one
+    const nextPointerCell = useCallback(
+        (event: PointerEvent): CellPosition | null => {
+            const position = cellFromPoint(event.clientX, event.clientY);
+            const key = position ? `cell_${position.row}_${position.col}` : null;
+            if (!position || key === pointerCellRef.current) return null;
+            pointerCellRef.current = key;
+            return position;
+        },
+        [cellFromPoint]
+    );
+
     // ── Drag select ───────────────────────────────────────────────────────────
-    const handleCellMouseDown = useCallback(
-        (rowIndex: number, colIndex: number, event: React.MouseEvent) => {
-            if (!isSelectionAllowed) return;
-            if ((event.target as HTMLElement).tagName === "INPUT") return;
-            if (autofillDragRef.current.active) return;
-            event.preventDefault();
+    const longPressRef = useRef<{ timer: number; x: number; y: number } | null>(null);
+
+    const cancelLongPress = useCallback(() => {
+        if (!longPressRef.current) return;
+        window.clearTimeout(longPressRef.current.timer);
+        longPressRef.current = null;
+    }, []);
+
+    const startDragSelection = useCallback(
+        (rowIndex: number, colIndex: number, extend: boolean) => {
             preSelectionRef.current = new Set(selectedCells);
+            pointerCellRef.current = `cell_${rowIndex}_${colIndex}`;
             setIsDragging(true);
             setDragStartCell({ row: rowIndex, col: colIndex });
             setIsSelectionMode(true);
             const cellId = `cell_${rowIndex}_${colIndex}`;
-            if (event.shiftKey) {
+            if (extend) {
                 dragSelectionRef.current = new Set([cellId]);
                 setSelectedCells(prev => { const s = new Set(prev); s.add(cellId); return s; });
             } else {
@@ -604,10 +1040,40 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                 setSelectedCells(new Set([cellId]));
             }
         },
-        [selectedCells, isSelectionAllowed]
+        [selectedCells]
+    );
+
+    const handleCellPointerDown = useCallback(
+        (rowIndex: number, colIndex: number, event: React.PointerEvent) => {
+            if (!isSelectionAllowed || isReadOnly) return;
+            if ((event.target as HTMLElement).tagName === "INPUT") return;
+            if (autofillDragRef.current.active) return;
+            if (event.pointerType !== "mouse") {
+                // Touch and pen scroll the grid unless held still first
+                cancelLongPress();
+                const timer = window.setTimeout(() => {
+                    longPressRef.current = null;
+                    startDragSelection(rowIndex, colIndex, false);
+                }, LONG_PRESS_MS);
+                longPressRef.current = { timer, x: event.clientX, y: event.clientY };
+                return;
+            }
+            startDragSelection(rowIndex, colIndex, event.shiftKey);
+        },
+        [isSelectionAllowed, isReadOnly, cancelLongPress, startDragSelection]
     );
 
-    const handleCellMouseEnter = useCallback(
+    // Stops text selection when a mouse drag starts; pointerdown can't prevent it
+    const handleCellMouseDown = useCallback(
+        (event: React.MouseEvent) => {
+            if (!isSelectionAllowed || isReadOnly) return;
+            if ((event.target as HTMLElement).tagName === "INPUT") return;
+            event.preventDefault();
+        },
+        [isSelectionAllowed, isReadOnly]
+    );
+
+    const extendDragSelection = useCallback(
         (rowIndex: number, colIndex: number) => {
             if (!isDragging || !dragStartCell) return;
             const dragged = getRectangularSelection(dragStartCell.row, dragStartCell.col, rowIndex, colIndex);
@@ -620,22 +1086,49 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
     );
 
     useEffect(() => {
+        const onMove = (event: PointerEvent) => {
+            const press = longPressRef.current;
+            if (press && Math.hypot(event.clientX - press.x, event.clientY - press.y) > LONG_PRESS_SLOP) cancelLongPress();
+            if (!isDragging) return;
+            const position = nextPointerCell(event);
+            if (position) extendDragSelection(position.row, position.col);
+        };
         const onUp = () => {
+            cancelLongPress();
             if (isDragging) { setIsDragging(false); setDragStartCell(null); preSelectionRef.current = new Set(); }
         };
-        document.addEventListener("mouseup", onUp);
-        return () => document.removeEventListener("mouseup", onUp);
-    }, [isDragging]);
+        // While a touch range is being dragged the page must not scroll instead
+        const onTouchMove = (event: TouchEvent) => {
+            if (isDragging) event.preventDefault();
+        };
+        document.addEventListener("pointermove", onMove);
+        document.addEventListener("pointerup", onUp);
+        document.addEventListener("pointercancel", onUp);
+        document.addEventListener("touchmove", onTouchMove, { passive: false });
+        return () => {
+            document.removeEventListener("pointermove", onMove);
+            document.removeEventListener("pointerup", onUp);
+            document.removeEventListener("pointercancel", onUp);
+            document.removeEventListener("touchmove", onTouchMove);
+        };
+    }, [isDragging, cancelLongPress, nextPointerCell, extendDragSelection]);
+
+    useEffect(() => cancelLongPress, [cancelLongPress]);
 
     const handleCellClick = useCallback(
         (rowIndex: number, colIndex: number, event?: React.MouseEvent) => {
             if (!isSelectionAllowed) {
-                if (props.onCellClick?.canExecute) props.onCellClick.execute();
+                notifyCellClick(rowIndex, colIndex);
                 return;
             }
             if (isDragging) return;
             const cellId = `cell_${rowIndex}_${colIndex}`;
-            if (props.onCellClick?.canExecute) props.onCellClick.execute();
+            if (isReadOnly) {
+                setSelectedCells(new Set([cellId]));
+                notifyCellClick(rowIndex, colIndex);
+                return;
+            }
+            notifyCellClick(rowIndex, colIndex);
             const isCtrlOrCmd = event?.ctrlKey || event?.metaKey;
             if (isSelectionMode) {
                 setSelectedCells(prev => {
@@ -653,304 +1146,1047 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                 setIsSelectionMode(true);
             }
         },
-        [isSelectionMode, isDragging, props.onCellClick, isSelectionAllowed]
+        [isSelectionMode, isDragging, notifyCellClick, isSelectionAllowed, isReadOnly]
     );
 
     const selectAllCells = useCallback(() => {
-        if (!isSelectionAllowed) return;
+        if (!isSelectionAllowed || isReadOnly) return;
         const all = new Set<string>();
         tableRows.forEach(row => row.cells.forEach(cell => {
             if (!isCellHidden(cell, mergeSpans)) all.add(cell.id);
         }));
         setSelectedCells(all);
         setIsSelectionMode(true);
-    }, [tableRows, mergeSpans, isSelectionAllowed]);
+    }, [tableRows, mergeSpans, isSelectionAllowed, isReadOnly]);
 
     const clearSelection = useCallback(() => {
         setSelectedCells(new Set());
         setIsSelectionMode(false);
     }, []);
 
+    // ── Selection binding ─────────────────────────────────────────────────────
+    // The selection as the app last saw it, so a selection set from outside
+    // isn't reported back as a user change
+    const lastSelectionRef = useRef<string>("");
+    const selectionFormat = props.selectionFormat ?? "ids";
+
+    useEffect(() => {
+        const text = serializeSelection(selectedCells, selectionFormat, rowLabels, columnLabels);
+        if (text === lastSelectionRef.current) return;
+        lastSelectionRef.current = text;
+        writeAttribute(props.selectedCellsAttribute, text);
+        if (props.onSelectionChange?.canExecute) props.onSelectionChange.execute();
+    }, [selectedCells, selectionFormat, rowLabels, columnLabels, props.selectedCellsAttribute, props.onSelectionChange]);
+
+    // Applied once per new value, so later edits to the table keep the user's own selection
+    const selectionSource = props.selectionSource?.status === "available" ? props.selectionSource.value ?? "" : undefined;
+    const appliedSelectionSourceRef = useRef<string | undefined>(undefined);
+    useEffect(() => {
+        if (selectionSource === undefined || !dataLoaded || selectionSource === appliedSelectionSourceRef.current) return;
+        appliedSelectionSourceRef.current = selectionSource;
+        const selection = normaliseSelection(tableRows, mergeSpans, parseSelection(selectionSource, rowLabels, columnLabels));
+        lastSelectionRef.current = serializeSelection(selection, selectionFormat, rowLabels, columnLabels);
+        writeAttribute(props.selectedCellsAttribute, lastSelectionRef.current);
+        setSelectedCells(selection);
+        setIsSelectionMode(selection.size > 0);
+        resetDragState();
+    }, [
+        selectionSource,
+        dataLoaded,
+        tableRows,
+        mergeSpans,
+        selectionFormat,
+        rowLabels,
+        columnLabels,
+        props.selectedCellsAttribute,
+        resetDragState
+    ]);
+
+    // ── Headers: select a whole row/column, rename inline ─────────────────────
+    // Ctrl/Cmd-click adds the row or column to the current selection
+    const selectHeader = useCallback(
+        (axis: HeaderAxis, index: number, additive: boolean) => {
+            if (!isSelectionAllowed) return;
+            const cells =
+                axis === "row"
+                    ? getRectangularSelection(index, 1, index, columnCount)
+                    : getRectangularSelection(1, index, rowCount, index);
+            setSelectedCells(prev => (additive && !isReadOnly ? new Set([...Array.from(prev), ...Array.from(cells)]) : cells));
+            setIsSelectionMode(true);
+            resetDragState();
+        },
+        [isSelectionAllowed, isReadOnly, getRectangularSelection, rowCount, columnCount, resetDragState]
+    );
+
+    // Renaming to "" or to the automatic label goes back to the automatic label
+    const renameHeader = useCallback(
+        (axis: HeaderAxis, index: number, text: string) => {
+            setEditingHeader(null);
+            if (isReadOnly) return;
+            const key = axis === "row" ? "rows" : "columns";
+            const automatic = autoHeaderLabel(index, axis === "row" ? rowLabelScheme : columnLabelScheme);
+            const label = text.trim();
+            const override = label === automatic ? "" : label;
+            const current = headerLabelsRef.current;
+            if ((current[key][index - 1] ?? "") === override) return;
+            recordHistory(tableRows, axis === "row" ? "Rename row" : "Rename column");
+            applyHeaderLabels({ ...current, [key]: setHeaderLabel(current[key], index, override) });
+            queueSave(tableRows, rowCount, columnCount);
+            announce(`${axis === "row" ? "Row" : "Column"} ${index} is now labelled ${override || automatic}`);
+        },
+        [isReadOnly, rowLabelScheme, columnLabelScheme, tableRows, rowCount, columnCount, recordHistory, applyHeaderLabels, queueSave, announce]
+    );
+
     // ── Merge ─────────────────────────────────────────────────────────────────
     const mergeCells = useCallback(() => {
         if (selectedCells.size < 2) return;
-        const positions = Array.from(selectedCells).map(id => {
-            const parts = id.replace("cell_", "").split("_");
-            return { row: parseInt(parts[0]), col: parseInt(parts[1]) };
-        });
-        const minRow = Math.min(...positions.map(p => p.row));
-        const maxRow = Math.max(...positions.map(p => p.row));
-        const minCol = Math.min(...positions.map(p => p.col));
-        const maxCol = Math.max(...positions.map(p => p.col));
-
-        const rectangleCellIds = new Set<string>();
-        for (let r = minRow; r <= maxRow; r++)
-            for (let c = minCol; c <= maxCol; c++)
-                rectangleCellIds.add(`cell_${r}_${c}`);
-
-        let isValidRect = true;
-        rectangleCellIds.forEach(cid => {
-            if (selectedCells.has(cid)) return;
-            const parts = cid.replace("cell_", "").split("_");
-            const r = parseInt(parts[0]); const c = parseInt(parts[1]);
-            const cell = tableRows.find(row => row.rowIndex === r)?.cells.find(cl => cl.columnIndex === c);
-            if (cell?.isMerged && cell.mergeId) {
-                const span = mergeSpans[cell.mergeId];
-                if (span) {
-                    const anchorId = `cell_${span.anchorRow}_${span.anchorCol}`;
-                    if (selectedCells.has(anchorId)) return;
-                }
-            }
-            isValidRect = false;
-        });
-
-        if (!isValidRect) {
-            alert("Please select a rectangular area to merge"); return;
+        const range = getMergeRange(tableRows, selectedCells);
+        if (!range) {
+            showMessage("mergeNotRectangular"); return;
         }
 
-        setTableRows(prevRows => {
-            const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-            for (let r = minRow; r <= maxRow; r++) {
-                for (let c = minCol; c <= maxCol; c++) {
-                    const cell = newRows.find(row => row.rowIndex === r)?.cells.find(cl => cl.columnIndex === c);
-                    if (cell?.isMerged && cell.mergeId) {
-                        const oldId = cell.mergeId;
-                        newRows.forEach(row => row.cells.forEach(c2 => {
-                            if (c2.mergeId === oldId) {
-                                c2.isMerged = false;
-                                c2.mergeId = "";
-                            }
-                        }));
-                    }
-                }
-            }
-            const mergeId = createMergeId(minRow, minCol, maxRow, maxCol);
-            const topLeft = newRows.find(r => r.rowIndex === minRow)?.cells.find(c => c.columnIndex === minCol);
-            if (!topLeft) return prevRows;
-            for (let r = minRow; r <= maxRow; r++) {
-                for (let c = minCol; c <= maxCol; c++) {
-                    const cell = newRows.find(row => row.rowIndex === r)?.cells.find(cl => cl.columnIndex === c);
-                    if (!cell) continue;
-                    cell.sequenceNumber = topLeft.sequenceNumber;
-                    cell.isBlocked = topLeft.isBlocked;
-                    cell.isBlank = topLeft.isBlank;
-                    cell.isMerged = true;
-                    cell.mergeId = mergeId;
-                }
-            }
-            const spans = computeMergeSpans(newRows);
-            updateCellStatistics(newRows, spans);
-            saveToBackend(newRows, rowCount, columnCount);
-            return newRows;
-        });
+        const newRows = mergeRange(tableRows, range);
+        if (newRows !== tableRows) commitCellChange(newRows, "Merge cells");
+        announce(`Merged ${range.maxRow - range.minRow + 1} by ${range.maxCol - range.minCol + 1} cells`);
         setSelectedCells(new Set());
         setIsSelectionMode(false);
         resetDragState();
-    }, [selectedCells, tableRows, mergeSpans, updateCellStatistics, saveToBackend, rowCount, columnCount, resetDragState]);
+    }, [selectedCells, tableRows, resetDragState, commitCellChange, announce, showMessage]);
 
     // ── Unmerge ───────────────────────────────────────────────────────────────
     const unmergeCells = useCallback(() => {
         if (selectedCells.size === 0) return;
-        const cellId = Array.from(selectedCells)[0];
-        const parts = cellId.replace("cell_", "").split("_");
-        const rowIndex = parseInt(parts[0]);
-        const colIndex = parseInt(parts[1]);
-        setTableRows(prevRows => {
-            const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-            const target = newRows.find(r => r.rowIndex === rowIndex)?.cells.find(c => c.columnIndex === colIndex);
-            if (!target?.isMerged) return prevRows;
-            const mergeId = target.mergeId;
-            newRows.forEach(row => row.cells.forEach(cell => {
-                if (cell.mergeId === mergeId) {
-                    cell.isMerged = false;
-                    cell.mergeId = "";
-                }
-            }));
-            const spans = computeMergeSpans(newRows);
-            updateCellStatistics(newRows, spans);
-            saveToBackend(newRows, rowCount, columnCount);
-            return newRows;
-        });
+        const position = parseCellId(Array.from(selectedCells)[0]);
+        if (!position) return;
+        const newRows = unmergeAt(tableRows, position.row, position.col);
+        if (newRows !== tableRows) commitCellChange(newRows, "Unmerge cells");
+        announce("Cells unmerged");
         resetDragState();
-    }, [selectedCells, updateCellStatistics, saveToBackend, rowCount, columnCount, resetDragState]);
+    }, [selectedCells, tableRows, resetDragState, commitCellChange, announce]);
 
     // ── Blank / Unblank ───────────────────────────────────────────────────────
-    const blankSelectedCells = useCallback(() => {
-        if (selectedCells.size === 0) return;
-        setTableRows(prevRows => {
-            const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-            selectedCells.forEach(cellId => {
-                const parts = cellId.replace("cell_", "").split("_");
-                const rowIndex = parseInt(parts[0]);
-                const colIndex = parseInt(parts[1]);
-                const cell = newRows.find(r => r.rowIndex === rowIndex)?.cells.find(c => c.columnIndex === colIndex);
-                if (!cell || isCellHidden(cell, mergeSpans)) return;
-                cell.isBlank = true;
-                if (cell.mergeId && cell.mergeId !== "") {
-                    const mergeId = cell.mergeId;
-                    newRows.forEach(row => row.cells.forEach(c => { if (c.mergeId === mergeId) c.isBlank = true; }));
-                }
-            });
+    const setSelectedBlank = useCallback(
+        (blank: boolean) => {
+            if (selectedCells.size === 0) return;
+            const positions = Array.from(selectedCells)
+                .map(parseCellId)
+                .filter((p): p is CellPosition => p !== null);
+            const newRows = setBlank(tableRows, positions, blank);
+            if (newRows !== tableRows) commitCellChange(newRows, blank ? "Blank cells" : "Unblank cells");
+            announce(`${positions.length} cell(s) ${blank ? "blanked" : "unblanked"}`);
+            setSelectedCells(new Set());
+            setIsSelectionMode(false);
+            resetDragState();
+        },
+        [selectedCells, tableRows, resetDragState, commitCellChange, announce]
+    );
+
+    const blankSelectedCells = useCallback(() => setSelectedBlank(true), [setSelectedBlank]);
+    const unblankSelectedCells = useCallback(() => setSelectedBlank(false), [setSelectedBlank]);
+
+    // ── Cell state ────────────────────────────────────────────────────────────
+    const applyCellState = useCallback(
+        (state: string) => {
+            if (selectedCells.size === 0) return;
+            const positions = Array.from(selectedCells)
+                .map(parseCellId)
+                .filter((p): p is CellPosition => p !== null);
+            const newRows = setCellState(tableRows, positions, state);
+            if (newRows !== tableRows) commitCellChange(newRows, state ? "Set state" : "Clear state");
+            const caption = stateByKey.get(state)?.stateCaption || state;
+            announce(state ? `${positions.length} cell(s) set to ${caption}` : `State cleared on ${positions.length} cell(s)`);
+        },
+        [selectedCells, stateByKey, tableRows, commitCellChange, announce]
+    );
+
+    // ── Insert / delete rows & columns ────────────────────────────────────────
+    const getSelectionBounds = useCallback((): { minRow: number; maxRow: number; minCol: number; maxCol: number } | null => {
+        if (selectedCells.size === 0) return null;
+        let minRow = Infinity;
+        let maxRow = -Infinity;
+        let minCol = Infinity;
+        let maxCol = -Infinity;
+        selectedCells.forEach(cellId => {
+            const position = parseCellId(cellId);
+            if (!position) return;
+            const { row: r, col: c } = position;
+            const cell = getCellAt(tableRows, r, c);
+            const { rowSpan, colSpan } = cell ? getCellSpan(cell, mergeSpans) : { rowSpan: 1, colSpan: 1 };
+            minRow = Math.min(minRow, r);
+            maxRow = Math.max(maxRow, r + rowSpan - 1);
+            minCol = Math.min(minCol, c);
+            maxCol = Math.max(maxCol, c + colSpan - 1);
+        });
+        return { minRow, maxRow, minCol, maxCol };
+    }, [selectedCells, tableRows, mergeSpans]);
+
+    // newLabels replaces the header labels when the change moves rows or columns
+    const commitTableRows = useCallback(
+        (newRows: TableRow[], label: string, newLabels?: HeaderLabels) => {
+            const newRowCount = newRows.length;
+            const newColCount = newRows[0]?.cells.length ?? 0;
+            isUserInputRef.current = true;
+            setRowCount(newRowCount);
+            setColumnCount(newColCount);
+            recordHistory(tableRowsRef.current, label);
+            if (newLabels) applyHeaderLabels(newLabels);
             const spans = computeMergeSpans(newRows);
-            updateCellStatistics(newRows, spans);
-            saveToBackend(newRows, rowCount, columnCount);
-            return newRows;
+            setMergeSpans(spans);
+            setTableRows(newRows);
+            queueSave(newRows, newRowCount, newColCount);
+            setSelectedCells(new Set());
+            setIsSelectionMode(false);
+            resetDragState();
+            setTimeout(() => { isUserInputRef.current = false; }, 100);
+        },
+        [recordHistory, applyHeaderLabels, queueSave, resetDragState]
+    );
+
+    const insertRow = useCallback(
+        (where: "above" | "below") => {
+            const bounds = getSelectionBounds();
+            if (!bounds) return;
+            if (rowCount + 1 > maxRows) { showMessage("maxRows", { rows: maxRows }); return; }
+            const position = where === "above" ? bounds.minRow : bounds.maxRow + 1;
+            const labels = headerLabelsRef.current;
+            commitTableRows(
+                insertRowAt(tableRows, position),
+                where === "above" ? "Insert row above" : "Insert row below",
+                { ...labels, rows: insertHeaderLabel(labels.rows, position) }
+            );
+        },
+        [getSelectionBounds, rowCount, tableRows, commitTableRows, maxRows, showMessage]
+    );
+
+    const insertColumn = useCallback(
+        (where: "left" | "right") => {
+            const bounds = getSelectionBounds();
+            if (!bounds) return;
+            if (columnCount + 1 > maxColumns) { showMessage("maxColumns", { columns: maxColumns }); return; }
+            const position = where === "left" ? bounds.minCol : bounds.maxCol + 1;
+            const labels = headerLabelsRef.current;
+            commitTableRows(
+                insertColumnAt(tableRows, position),
+                where === "left" ? "Insert column left" : "Insert column right",
+                { ...labels, columns: insertHeaderLabel(labels.columns, position) }
+            );
+        },
+        [getSelectionBounds, columnCount, tableRows, commitTableRows, maxColumns, showMessage]
+    );
+
+    const deleteSelectedRows = useCallback(() => {
+        const bounds = getSelectionBounds();
+        if (!bounds) return;
+        const rowIndexes = new Set<number>();
+        for (let r = bounds.minRow; r <= bounds.maxRow; r++) rowIndexes.add(r);
+        if (rowIndexes.size >= rowCount) { showMessage("minRows"); return; }
+        const labels = headerLabelsRef.current;
+        commitTableRows(
+            deleteRowsAt(tableRows, rowIndexes),
+            rowIndexes.size > 1 ? "Delete rows" : "Delete row",
+            { ...labels, rows: deleteHeaderLabels(labels.rows, rowIndexes) }
+        );
+    }, [getSelectionBounds, rowCount, tableRows, commitTableRows, showMessage]);
+
+    const deleteSelectedColumns = useCallback(() => {
+        const bounds = getSelectionBounds();
+        if (!bounds) return;
+        const colIndexes = new Set<number>();
+        for (let c = bounds.minCol; c <= bounds.maxCol; c++) colIndexes.add(c);
+        if (colIndexes.size >= columnCount) { showMessage("minColumns"); return; }
+        const labels = headerLabelsRef.current;
+        commitTableRows(
+            deleteColumnsAt(tableRows, colIndexes),
+            colIndexes.size > 1 ? "Delete columns" : "Delete column",
+            { ...labels, columns: deleteHeaderLabels(labels.columns, colIndexes) }
+        );
+    }, [getSelectionBounds, columnCount, tableRows, commitTableRows, showMessage]);
+
+    // ── Validation ────────────────────────────────────────────────────────────
+    const validationMin = readExpressionNumber(props.validationMin);
+    const validationMax = readExpressionNumber(props.validationMax);
+
+    const validationRules = useMemo<ValidationRules>(
+        () => ({
+            unique: props.validateUnique,
+            contiguous: props.validateContiguous,
+            numericOnly: props.validateNumericOnly,
+            min: validationMin,
+            max: validationMax
+        }),
+        [props.validateUnique, props.validateContiguous, props.validateNumericOnly, validationMin, validationMax]
+    );
+    const validation = useMemo(
+        () => validateTable(tableRows, validationRules, inactiveStates),
+        [tableRows, validationRules, inactiveStates]
+    );
+
+    // Messages per cell for the highlight tooltip
+    const validationMessagesByCell = useMemo(() => {
+        const messages = new Map<string, string[]>();
+        validation.issues.forEach(issue =>
+            issue.cellIds.forEach(id => messages.set(id, [...(messages.get(id) ?? []), issue.message]))
+        );
+        return messages;
+    }, [validation]);
+
+    useEffect(() => {
+        if (tableRows.length === 0) return;
+        const message = formatValidationMessage(validation);
+        const isValid = props.isValidAttribute;
+        if (isValid?.status === "available" && !isValid.readOnly && isValid.value !== validation.valid) {
+            isValid.setValue(validation.valid);
+        }
+        const messageAttribute = props.validationMessageAttribute;
+        if (messageAttribute?.status === "available" && !messageAttribute.readOnly && (messageAttribute.value ?? "") !== message) {
+            messageAttribute.setValue(message);
+        }
+    }, [validation, tableRows.length, props.isValidAttribute, props.validationMessageAttribute]);
+
+    // ── Auto-number ───────────────────────────────────────────────────────────
+    // null while the panel is closed; opening it starts from the configured defaults
+    const [autoNumberOptions, setAutoNumberOptions] = useState<AutoNumberOptions | null>(null);
+
+    const openAutoNumber = useCallback(() => {
+        setAutoNumberOptions({
+            order: props.autoNumberOrder,
+            corner: props.autoNumberCorner,
+            start: props.autoNumberStart,
+            step: props.autoNumberStep,
+            template: props.autoNumberTemplate || DEFAULT_LABEL_TEMPLATE,
+            prefix: props.autoNumberPrefix ?? "",
+            includeBlocked: props.autoNumberIncludeBlocked,
+            includeBlank: props.autoNumberIncludeBlank
         });
-        setSelectedCells(new Set());
-        setIsSelectionMode(false);
-        resetDragState();
-    }, [selectedCells, mergeSpans, updateCellStatistics, saveToBackend, rowCount, columnCount, resetDragState]);
+    }, [
+        props.autoNumberOrder,
+        props.autoNumberCorner,
+        props.autoNumberStart,
+        props.autoNumberStep,
+        props.autoNumberTemplate,
+        props.autoNumberPrefix,
+        props.autoNumberIncludeBlocked,
+        props.autoNumberIncludeBlank
+    ]);
+
+    const updateAutoNumber = useCallback((patch: Partial<AutoNumberOptions>) => {
+        setAutoNumberOptions(prev => (prev ? { ...prev, ...patch } : prev));
+    }, []);
 
-    const unblankSelectedCells = useCallback(() => {
-        if (selectedCells.size === 0) return;
-        setTableRows(prevRows => {
-            const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-            selectedCells.forEach(cellId => {
-                const parts = cellId.replace("cell_", "").split("_");
-                const rowIndex = parseInt(parts[0]);
-                const colIndex = parseInt(parts[1]);
-                const cell = newRows.find(r => r.rowIndex === rowIndex)?.cells.find(c => c.columnIndex === colIndex);
-                if (!cell || isCellHidden(cell, mergeSpans)) return;
-                cell.isBlank = false;
-                if (cell.mergeId && cell.mergeId !== "") {
-                    const mergeId = cell.mergeId;
-                    newRows.forEach(row => row.cells.forEach(c => { if (c.mergeId === mergeId) c.isBlank = false; }));
-                }
-            });
-            const spans = computeMergeSpans(newRows);
-            updateCellStatistics(newRows, spans);
-            saveToBackend(newRows, rowCount, columnCount);
-            return newRows;
+    const applyAutoNumber = useCallback(() => {
+        if (!autoNumberOptions || !Number.isInteger(autoNumberOptions.start) || !Number.isInteger(autoNumberOptions.step)) return;
+        const options = autoNumberOptions;
+        const newRows = autoNumberCells(tableRows, options);
+        if (newRows !== tableRows) commitCellChange(newRows, "Auto-number");
+        setAutoNumberOptions(null);
+    }, [autoNumberOptions, tableRows, commitCellChange]);
+
+    // ── Import / export (CSV, XLSX) ───────────────────────────────────────────
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const exportCsv = useCallback(() => {
+        const labels = props.showHeaders ? { rowLabels, columnLabels } : undefined;
+        const csv = layoutToCsv(tableRowsToLayout(tableRows, mergeSpans, labels));
+        downloadFile(csv, "cavity-layout.csv", "text/csv;charset=utf-8");
+    }, [tableRows, mergeSpans, props.showHeaders, rowLabels, columnLabels]);
+
+    const layoutColors = useMemo<LayoutColors>(
+        () => ({
+            borderColor: props.tableBorderColor || "#dee2e6",
+            mergedCellColor: props.mergedCellColor || "#e3f2fd",
+            blankCellColor: props.blankCellColor || "#2c2c2c",
+            blockedBorderColor: "#fdd835"
+        }),
+        [props.tableBorderColor, props.mergedCellColor, props.blankCellColor]
+    );
+
+    const exportXlsx = useCallback(async () => {
+        try {
+            const labels = props.showHeaders ? { rowLabels, columnLabels } : undefined;
+            const buffer = await layoutToXlsx(tableRowsToLayout(tableRows, mergeSpans, labels), layoutColors);
+            downloadFile(buffer, "cavity-layout.xlsx", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        } catch (error) {
+            showMessage("exportFailed", { format: "XLSX", reason: describeError(error) });
+        }
+    }, [tableRows, mergeSpans, layoutColors, props.showHeaders, rowLabels, columnLabels, showMessage]);
+
+    // ── Diagram (SVG, PNG, print) ─────────────────────────────────────────────
+    // Same figures as the info bar, so a printout matches what's on screen
+    const buildDiagram = useCallback((): string => {
+        const stats = getTableStatistics(tableRows);
+        const lines: Array<[string, string]> = [
+            ["Table", `${rowCount} rows × ${columnCount} columns = ${rowCount * columnCount} cells`],
+            ["Blocked", String(stats.blockedCells)],
+            ["Merged", String(stats.mergedCells)]
+        ];
+        if (isBlankingConfigured) lines.push(["Blank", String(stats.blankCells)]);
+        if (hasValidationRules(validationRules)) {
+            lines.push(["Validation", validation.valid ? "All rules pass" : `${validation.issues.length} problem(s)`]);
+        }
+        return layoutToSvg(tableRowsToLayout(tableRows, mergeSpans), {
+            colors: layoutColors,
+            title: props.diagramTitle?.value || undefined,
+            rowLabels,
+            columnLabels,
+            statistics: lines
         });
+    }, [
+        tableRows,
+        mergeSpans,
+        layoutColors,
+        rowCount,
+        columnCount,
+        isBlankingConfigured,
+        validationRules,
+        validation,
+        props.diagramTitle,
+        rowLabels,
+        columnLabels
+    ]);
+
+    const exportSvg = useCallback(() => {
+        downloadFile(buildDiagram(), "cavity-layout.svg", "image/svg+xml;charset=utf-8");
+    }, [buildDiagram]);
+
+    const exportPng = useCallback(async () => {
+        try {
+            downloadFile(await svgToPng(buildDiagram()), "cavity-layout.png", "image/png");
+        } catch (error) {
+            showMessage("exportFailed", { format: "PNG", reason: describeError(error) });
+        }
+    }, [buildDiagram, showMessage]);
+
+    const printDiagram = useCallback(() => {
+        try {
+            printSvg(buildDiagram(), props.diagramTitle?.value || "Cavity layout");
+        } catch (error) {
+            showMessage("printFailed", { reason: describeError(error) });
+        }
+    }, [buildDiagram, props.diagramTitle, showMessage]);
+
+    const canSaveDiagramFile = props.diagramFile?.status === "available" && !props.diagramFile.readOnly;
+
+    const saveDiagramFile = useCallback(async () => {
+        const target = props.diagramFile;
+        if (target?.status !== "available" || target.readOnly) return;
+        try {
+            const svg = buildDiagram();
+            const file =
+                props.diagramFileFormat === "svg"
+                    ? new File([svg], "cavity-layout.svg", { type: "image/svg+xml" })
+                    : new File([await svgToPng(svg)], "cavity-layout.png", { type: "image/png" });
+            target.setValue(file);
+            if (props.onDiagramSaved?.canExecute) props.onDiagramSaved.execute();
+        } catch (error) {
+            showMessage("diagramSaveFailed", { reason: describeError(error) });
+        }
+    }, [buildDiagram, props.diagramFile, props.diagramFileFormat, props.onDiagramSaved, showMessage]);
+
+    const handleImportFile = useCallback(
+        async (event: React.ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            // Reset so picking the same file again still fires a change
+            event.target.value = "";
+            if (!file) return;
+            try {
+                const layout = await readLayoutFile(file);
+                if (layout.rows <= 0 || layout.columns <= 0) { showMessage("importEmpty"); return; }
+                if (layout.rows > maxRows || layout.columns > maxColumns) { showMessage("sizeLimit", { rows: maxRows, columns: maxColumns }); return; }
+                askMessage("confirmImport", { rows: layout.rows, columns: layout.columns, file: file.name }, () =>
+                    commitTableRows(layoutToTableRows(layout), "Import layout", {
+                        rows: toHeaderOverrides(layout.rowLabels ?? [], rowLabelScheme),
+                        columns: toHeaderOverrides(layout.columnLabels ?? [], columnLabelScheme)
+                    })
+                );
+            } catch (error) {
+                showMessage("importFailed", { file: file.name, reason: describeError(error) });
+            }
+        },
+        [commitTableRows, maxRows, maxColumns, showMessage, askMessage, rowLabelScheme, columnLabelScheme]
+    );
+
+    const applyTemplate = useCallback(() => {
+        const template = templates.find(t => t.name === selectedTemplate);
+        if (!template) return;
+        const { data, problems } = parseTableData(template.data, maxRows, maxColumns);
+        if (!data) {
+            const reason = problems.find(p => p.severity === "error")?.message ?? "";
+            showMessage("templateInvalid", { name: template.name, reason });
+            return;
+        }
+        const apply = (): void => {
+            commitTableRows(data.tableRows, `Apply template "${template.name}"`, data.headerLabels ?? EMPTY_HEADER_LABELS);
+            announce(`Template "${template.name}" applied`);
+        };
+        if (hasTableContent(tableRows)) {
+            askMessage("confirmApplyTemplate", { rows: data.rows, columns: data.columns, name: template.name }, apply);
+        } else {
+            apply();
+        }
+    }, [templates, selectedTemplate, tableRows, maxRows, maxColumns, commitTableRows, announce, showMessage, askMessage]);
+
+    const saveTemplate = useCallback(() => {
+        const name = templateName.trim();
+        if (name === "") return;
+        // Taken when Save is pressed, not when an overwrite is confirmed
+        const data = serializeTable(tableRows, { createdAt: new Date().toISOString() }, headerLabelsRef.current);
+        const store = (): void => {
+            if (isTemplateObjectMode) {
+                // The action creates or updates the template object from these attributes
+                if (props.saveTemplateNameAttribute?.status === "available" && !props.saveTemplateNameAttribute.readOnly) {
+                    props.saveTemplateNameAttribute.setValue(name);
+                }
+                if (props.saveTemplateDataAttribute?.status === "available" && !props.saveTemplateDataAttribute.readOnly) {
+                    props.saveTemplateDataAttribute.setValue(data);
+                }
+            } else if (props.templatesAttribute?.status === "available" && !props.templatesAttribute.readOnly) {
+                props.templatesAttribute.setValue(serializeTemplateList(upsertTemplate(templates, { name, data })));
+            } else {
+                showMessage("templateNotSaved");
+                return;
+            }
+            if (props.onSaveTemplate?.canExecute) props.onSaveTemplate.execute();
+            setSelectedTemplate(name);
+            setTemplateName("");
+            announce(`Template "${name}" saved`);
+        };
+        if (templates.some(t => t.name === name)) askMessage("confirmOverwriteTemplate", { name }, store);
+        else store();
+    }, [
+        templateName,
+        templates,
+        tableRows,
+        isTemplateObjectMode,
+        props.templatesAttribute,
+        props.saveTemplateNameAttribute,
+        props.saveTemplateDataAttribute,
+        props.onSaveTemplate,
+        announce,
+        showMessage,
+        askMessage
+    ]);
+
+    // ── Undo / Redo ───────────────────────────────────────────────────────────
+    const restoreSnapshot = useCallback(
+        ({ rows, headerLabels: labels }: TableSnapshot) => {
+            // Dimensions are derived from the snapshot itself so a restore after
+            // add row/column or regenerate brings the counts back with it
+            const rowCnt = rows.length;
+            const colCnt = rows[0]?.cells.length ?? 0;
+            isUserInputRef.current = true;
+            setRowCount(rowCnt);
+            setColumnCount(colCnt);
+            const spans = computeMergeSpans(rows);
+            setMergeSpans(spans);
+            setTableRows(rows);
+            applyHeaderLabels(labels);
+            setSelectedCells(new Set());
+            setIsSelectionMode(false);
+            resetDragState();
+            queueSave(rows, rowCnt, colCnt);
+            setTimeout(() => { isUserInputRef.current = false; }, 100);
+        },
+        [queueSave, resetDragState, applyHeaderLabels]
+    );
+
+    // Back to the last committed table; undo brings the discarded changes back
+    const discardChanges = useCallback(() => {
+        if (!pendingSaveRef.current) return;
+        const { data } = parseTableData(lastSavedDataRef.current, maxRows, maxColumns);
+        if (!data) return;
+        window.clearTimeout(autoSaveTimerRef.current);
+        pendingSaveRef.current = null;
+        setIsDirty(false);
+        recordHistory(tableRows, "Discard changes");
+        isUserInputRef.current = true;
+        setRowCount(data.rows);
+        setColumnCount(data.columns);
+        setMergeSpans(computeMergeSpans(data.tableRows));
+        setTableRows(data.tableRows);
+        applyHeaderLabels(data.headerLabels ?? EMPTY_HEADER_LABELS);
         setSelectedCells(new Set());
         setIsSelectionMode(false);
         resetDragState();
-    }, [selectedCells, mergeSpans, updateCellStatistics, saveToBackend, rowCount, columnCount, resetDragState]);
+        updateCellStatistics(data.tableRows);
+        announce("Changes discarded");
+        setTimeout(() => { isUserInputRef.current = false; }, 100);
+    }, [tableRows, maxRows, maxColumns, recordHistory, applyHeaderLabels, resetDragState, updateCellStatistics, announce]);
+
+    const saveChanges = useCallback(() => {
+        if (!pendingSaveRef.current) return;
+        breakCoalescing();
+        commitPendingChanges();
+        announce("Changes saved");
+    }, [breakCoalescing, commitPendingChanges, announce]);
+
+    const undo = useCallback(() => {
+        const previous = popUndo({ rows: tableRows, headerLabels: headerLabelsRef.current });
+        if (!previous) return;
+        restoreSnapshot(previous);
+        announce(`Undone: ${undoLabel}`);
+    }, [tableRows, popUndo, restoreSnapshot, announce, undoLabel]);
+
+    const redo = useCallback(() => {
+        const next = popRedo({ rows: tableRows, headerLabels: headerLabelsRef.current });
+        if (!next) return;
+        restoreSnapshot(next);
+        announce(`Redone: ${redoLabel}`);
+    }, [tableRows, popRedo, restoreSnapshot, announce, redoLabel]);
+
+    // Counts only: clearing is silent so it doesn't talk over a merge/blank result
+    useEffect(() => {
+        if (selectedCells.size > 0) announce(`${selectedCells.size} cell(s) selected`);
+    }, [selectedCells.size, announce]);
+
+    const handleKeyDown = useCallback(
+        (event: React.KeyboardEvent) => {
+            if (isReadOnly || !(event.ctrlKey || event.metaKey)) return;
+            const key = event.key.toLowerCase();
+            // Inside a field Ctrl+Z/Ctrl+Y stay the browser's text undo
+            const isTextField = (event.target as HTMLElement).tagName === "INPUT";
+            if (key === "z" && !event.shiftKey) {
+                if (isTextField) return;
+                event.preventDefault();
+                undo();
+            } else if (key === "y" || (key === "z" && event.shiftKey)) {
+                if (isTextField) return;
+                event.preventDefault();
+                redo();
+            } else if (key === "s" && props.showSaveButtons) {
+                event.preventDefault();
+                saveChanges();
+            }
+        },
+        [undo, redo, saveChanges, props.showSaveButtons, isReadOnly]
+    );
+
+    // ── Keyboard navigation ───────────────────────────────────────────────────
+    const getCellElement = useCallback(
+        (row: number, col: number): HTMLTableCellElement | null =>
+            tableRef.current?.querySelector<HTMLTableCellElement>(`td[data-cell-id="cell_${row}_${col}"]`) ?? null,
+        []
+    );
+
+    const focusCell = useCallback(
+        (row: number, col: number) => {
+            setFocusedCell({ row, col });
+            scrollToCell(row, col);
+            const element = getCellElement(row, col);
+            // Not drawn yet in virtualised mode: focus once the window has moved
+            if (element) element.focus({ preventScroll: isVirtual });
+            else pendingFocusRef.current = { row, col };
+        },
+        [getCellElement, scrollToCell, isVirtual]
+    );
+
+    useEffect(() => {
+        const pending = pendingFocusRef.current;
+        if (!pending) return;
+        pendingFocusRef.current = null;
+        getCellElement(pending.row, pending.col)?.focus({ preventScroll: true });
+    }, [gridWindow, getCellElement]);
+
+    const startEditing = useCallback(
+        (row: number, col: number, initialValue?: string) => {
+            if (!canEditCells) return;
+            const input = getCellElement(row, col)?.querySelector<HTMLInputElement>("input.tableview-cell-input");
+            if (!input) return;
+            input.focus();
+            if (initialValue !== undefined) handleCellValueChange(row, col, initialValue);
+            else input.select();
+        },
+        [canEditCells, getCellElement, handleCellValueChange]
+    );
+
+    const resetCellValues = useCallback(
+        (cellIds: string[]) => {
+            const values = cellIds
+                .map(parseCellId)
+                .filter((p): p is CellPosition => p !== null)
+                .map(p => ({ ...p, value: "-" }));
+            const newRows = setCellValues(tableRows, values);
+            if (newRows !== tableRows) commitCellChange(newRows, "Clear cells");
+        },
+        [tableRows, commitCellChange]
+    );
+
+    const handleGridKeyDown = useCallback(
+        (event: React.KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            const isEditing = target.tagName === "INPUT" && target.classList.contains("tableview-cell-input");
+            const isCtrlOrCmd = event.ctrlKey || event.metaKey;
+
+            // ── While editing: Enter commits and moves down, Escape restores the value ──
+            if (isEditing) {
+                if (!focusedCell) return;
+                if (event.key === "Escape") {
+                    event.preventDefault();
+                    const cell = getCellAt(tableRows, focusedCell.row, focusedCell.col);
+                    if (cell && cell.sequenceNumber !== editStartValueRef.current) {
+                        handleCellValueChange(focusedCell.row, focusedCell.col, editStartValueRef.current);
+                    }
+                    focusCell(focusedCell.row, focusedCell.col);
+                } else if (event.key === "Enter") {
+                    event.preventDefault();
+                    const next = getNeighbourPosition(tableRows, mergeSpans, focusedCell.row, focusedCell.col, event.shiftKey ? -1 : 1, 0);
+                    focusCell(next.row, next.col);
+                }
+                return;
+            }
+            if (target.tagName !== "TD" || !focusedCell) return;
+            const { row, col } = focusedCell;
+            const cellId = `cell_${row}_${col}`;
+
+            // ── Shortcuts ──
+            if (isCtrlOrCmd) {
+                const key = event.key.toLowerCase();
+                if (key === "a" && isSelectionAllowed) {
+                    event.preventDefault();
+                    selectAllCells();
+                } else if (key === "m" && hasMergingEnabled) {
+                    event.preventDefault();
+                    if (event.shiftKey) unmergeCells(); else mergeCells();
+                } else if (key === "b" && hasBlankingEnabled) {
+                    event.preventDefault();
+                    if (event.shiftKey) unblankSelectedCells(); else blankSelectedCells();
+                }
+                return;
+            }
+
+            const arrows: Record<string, [number, number]> = {
+                ArrowUp: [-1, 0],
+                ArrowDown: [1, 0],
+                ArrowLeft: [0, -1],
+                ArrowRight: [0, 1]
+            };
+            if (arrows[event.key]) {
+                event.preventDefault();
+                const [rowDelta, colDelta] = arrows[event.key];
+                const next = getNeighbourPosition(tableRows, mergeSpans, row, col, rowDelta, colDelta);
+                if (event.shiftKey && isSelectionAllowed && !isReadOnly) {
+                    const anchor = keyboardAnchorRef.current ?? { row, col };
+                    keyboardAnchorRef.current = anchor;
+                    setSelectedCells(getRectangularSelection(anchor.row, anchor.col, next.row, next.col));
+                    setIsSelectionMode(true);
+                } else {
+                    keyboardAnchorRef.current = null;
+                    if (isSelectionAllowed) {
+                        setSelectedCells(new Set([`cell_${next.row}_${next.col}`]));
+                        setIsSelectionMode(true);
+                    }
+                }
+                focusCell(next.row, next.col);
+                return;
+            }
+
+            switch (event.key) {
+                case "Enter":
+                case "F2":
+                    event.preventDefault();
+                    startEditing(row, col);
+                    break;
+                case "Escape":
+                    event.preventDefault();
+                    keyboardAnchorRef.current = null;
+                    clearSelection();
+                    break;
+                case " ":
+                    event.preventDefault();
+                    if (canToggleBlocked) handleCheckboxChange(row, col);
+                    break;
+                case "Delete":
+                case "Backspace":
+                    event.preventDefault();
+                    if (canEditCells) {
+                        resetCellValues(selectedCells.size > 0 ? Array.from(selectedCells) : [cellId]);
+                    }
+                    break;
+                default:
+                    // Typing a character starts editing with that character, like a spreadsheet
+                    if (event.key.length === 1 && !event.altKey && canEditCells) {
+                        event.preventDefault();
+                        startEditing(row, col, event.key);
+                    }
+            }
+        },
+        [
+            focusedCell,
+            tableRows,
+            mergeSpans,
+            selectedCells,
+            isReadOnly,
+            isSelectionAllowed,
+            hasMergingEnabled,
+            hasBlankingEnabled,
+            canToggleBlocked,
+            canEditCells,
+            focusCell,
+            startEditing,
+            resetCellValues,
+            handleCellValueChange,
+            handleCheckboxChange,
+            getRectangularSelection,
+            selectAllCells,
+            clearSelection,
+            mergeCells,
+            unmergeCells,
+            blankSelectedCells,
+            unblankSelectedCells
+        ]
+    );
+
+    // Keep the roving focus on a cell that still exists after structural changes
+    useEffect(() => {
+        if (!focusedCell) return;
+        const cell = getCellAt(tableRows, focusedCell.row, focusedCell.col);
+        if (!cell) {
+            setFocusedCell(null);
+        } else if (isCellHidden(cell, mergeSpans)) {
+            const span = mergeSpans[cell.mergeId];
+            setFocusedCell({ row: span.anchorRow, col: span.anchorCol });
+        }
+    }, [tableRows, mergeSpans, focusedCell]);
+
+    // ── Clipboard (copy/paste rectangles to and from spreadsheets) ────────────
+    const buildClipboardGrid = useCallback((): ClipboardGrid | null => {
+        const bounds = getSelectionBounds()
+            ?? (focusedCell ? { minRow: focusedCell.row, maxRow: focusedCell.row, minCol: focusedCell.col, maxCol: focusedCell.col } : null);
+        if (!bounds) return null;
+        const { minRow, maxRow, minCol, maxCol } = bounds;
+        const grid: ClipboardGrid = [];
+        for (let r = minRow; r <= maxRow; r++) {
+            const line: ClipboardGrid[number] = [];
+            for (let c = minCol; c <= maxCol; c++) {
+                const cell = getCellAt(tableRows, r, c);
+                const value = !cell || cell.isBlank || cell.sequenceNumber === "-" ? "" : cell.sequenceNumber;
+                if (cell && isCellHidden(cell, mergeSpans)) {
+                    // Covered by a merge whose anchor is inside the copied range → no cell of its own
+                    const span = mergeSpans[cell.mergeId];
+                    const anchorInside = span.anchorRow >= minRow && span.anchorCol >= minCol;
+                    line.push(anchorInside ? null : { value: "", rowSpan: 1, colSpan: 1 });
+                    continue;
+                }
+                const { rowSpan, colSpan } = cell ? getCellSpan(cell, mergeSpans) : { rowSpan: 1, colSpan: 1 };
+                line.push({
+                    value,
+                    rowSpan: Math.min(rowSpan, maxRow - r + 1),
+                    colSpan: Math.min(colSpan, maxCol - c + 1)
+                });
+            }
+            grid.push(line);
+        }
+        return grid;
+    }, [getSelectionBounds, focusedCell, tableRows, mergeSpans]);
+
+    const pasteBlock = useCallback(
+        (block: string[][]) => {
+            const bounds = getSelectionBounds();
+            const start = focusedCell ?? (bounds ? { row: bounds.minRow, col: bounds.minCol } : null);
+            if (!start || block.length === 0) return;
+            const blockCols = Math.max(...block.map(line => line.length));
+            const neededRows = Math.min(start.row + block.length - 1, maxRows);
+            const neededCols = Math.min(start.col + blockCols - 1, maxColumns);
+
+            // Without growing, only the part that fits is pasted
+            const paste = (grow: boolean): void => {
+                const rows = tableRowsRef.current;
+                const currentRows = rows.length;
+                const currentCols = rows[0]?.cells.length ?? 0;
+                const targetRows = grow ? Math.max(neededRows, currentRows) : currentRows;
+                const targetCols = grow ? Math.max(neededCols, currentCols) : currentCols;
+                const grown = targetRows !== currentRows || targetCols !== currentCols;
+                const baseRows = grown ? growTableRows(rows, targetRows, targetCols) : rows;
+                // Same rule as autofill: blank cells and hidden merge members don't take values
+                const values = block.flatMap((line, i) =>
+                    line.map((raw, j) => ({ row: start.row + i, col: start.col + j, value: raw.trim() === "" ? "-" : raw.trim() }))
+                );
+                const newRows = setCellValues(baseRows, values);
+                const changed = grown || newRows !== baseRows;
+                if (!changed) return;
+
+                commitTableRows(newRows, "Paste");
+                if (isSelectionAllowed) {
+                    setSelectedCells(getRectangularSelection(
+                        start.row,
+                        start.col,
+                        Math.min(start.row + block.length - 1, targetRows),
+                        Math.min(start.col + blockCols - 1, targetCols)
+                    ));
+                    setIsSelectionMode(true);
+                }
+                notifyCellClick(start.row, start.col, newRows);
+            };
+
+            if (neededRows > rowCount || neededCols > columnCount) {
+                askMessage(
+                    "confirmGrowPaste",
+                    {
+                        rows: Math.max(neededRows, rowCount),
+                        columns: Math.max(neededCols, columnCount),
+                        tableRows: rowCount,
+                        tableColumns: columnCount
+                    },
+                    () => paste(true),
+                    () => paste(false)
+                );
+            } else {
+                paste(false);
+            }
+        },
+        [
+            getSelectionBounds,
+            focusedCell,
+            rowCount,
+            columnCount,
+            commitTableRows,
+            askMessage,
+            isSelectionAllowed,
+            getRectangularSelection,
+            maxRows,
+            maxColumns,
+            notifyCellClick
+        ]
+    );
+
+    useEffect(() => {
+        const isGridFocused = () => !!tableRef.current && tableRef.current.contains(document.activeElement);
+
+        const onCopy = (event: ClipboardEvent) => {
+            if (!isGridFocused() || !event.clipboardData) return;
+            const active = document.activeElement as HTMLInputElement;
+            // Text selected inside a cell input copies as plain text, like any input
+            if (active.tagName === "INPUT" && active.selectionStart !== active.selectionEnd) return;
+            const grid = buildClipboardGrid();
+            if (!grid) return;
+            event.preventDefault();
+            event.clipboardData.setData("text/plain", gridToTsv(grid));
+            event.clipboardData.setData("text/html", gridToHtml(grid));
+        };
+
+        const onPaste = (event: ClipboardEvent) => {
+            if (!isGridFocused() || !event.clipboardData || !canEditCells) return;
+            const text = event.clipboardData.getData("text/plain");
+            const active = document.activeElement as HTMLElement;
+            // A single value pasted while editing goes into the input as usual
+            if (active.tagName === "INPUT" && !isMultiCellText(text)) return;
+            event.preventDefault();
+            pasteBlock(parseTsv(text));
+        };
+
+        document.addEventListener("copy", onCopy);
+        document.addEventListener("paste", onPaste);
+        return () => {
+            document.removeEventListener("copy", onCopy);
+            document.removeEventListener("paste", onPaste);
+        };
+    }, [buildClipboardGrid, pasteBlock, canEditCells]);
 
     // ════════════════════════════════════════════════════════════════════════════
     // ── AUTOFILL DRAG LOGIC ──────────────────────────────────────────────────
     // ════════════════════════════════════════════════════════════════════════════
 
-    const handleAutofillHandleMouseDown = useCallback(
-        (rowIndex: number, colIndex: number, event: React.MouseEvent) => {
+    const handleAutofillHandlePointerDown = useCallback(
+        (rowIndex: number, colIndex: number, event: React.PointerEvent) => {
             event.preventDefault();
             event.stopPropagation();
+            cancelLongPress();
+            pointerCellRef.current = `cell_${rowIndex}_${colIndex}`;
 
-            const sourceCell = tableRows.find(r => r.rowIndex === rowIndex)?.cells.find(c => c.columnIndex === colIndex);
-            if (!sourceCell || !isInteger(sourceCell.sequenceNumber)) return;
-
-            const startVal = parseInt(sourceCell.sequenceNumber, 10);
+            // A rectangular selection containing the handle's cell is the source, so two
+            // selected cells define the step; otherwise the cell itself is the source
+            const selectionRange =
+                selectedCells.size > 1 && selectedCells.has(`cell_${rowIndex}_${colIndex}`)
+                    ? getMergeRange(tableRows, selectedCells)
+                    : null;
+            const source = selectionRange ?? { minRow: rowIndex, maxRow: rowIndex, minCol: colIndex, maxCol: colIndex };
 
             setAutofillDrag({
                 active: true,
-                sourceRow: rowIndex,
-                sourceCol: colIndex,
-                sourceValue: startVal,
-                direction: null,
+                source,
+                mode: getAutofillMode(event),
                 currentRow: rowIndex,
                 currentCol: colIndex
             });
             setAutofillPreviewCells(new Set());
         },
-        [tableRows]
+        [tableRows, selectedCells, cancelLongPress]
     );
 
-    const handleCellMouseEnterAutofill = useCallback(
-        (rowIndex: number, colIndex: number) => {
-            if (!autofillDragRef.current.active) return;
-
-            const { sourceRow, sourceCol } = autofillDragRef.current;
-
-            let direction: "horizontal" | "vertical" | null = null;
-            if (rowIndex === sourceRow && colIndex !== sourceCol) {
-                direction = "horizontal";
-            } else if (colIndex === sourceCol && rowIndex !== sourceRow) {
-                direction = "vertical";
-            } else if (rowIndex !== sourceRow && colIndex !== sourceCol) {
-                const rowDelta = Math.abs(rowIndex - sourceRow);
-                const colDelta = Math.abs(colIndex - sourceCol);
-                direction = colDelta >= rowDelta ? "horizontal" : "vertical";
-            }
-
-            const newState: AutofillDragState = {
-                ...autofillDragRef.current,
-                direction,
-                currentRow: rowIndex,
-                currentCol: colIndex
-            };
-            setAutofillDrag(newState);
-
-            const cells = getAutofillCells(
-                tableRows,
-                mergeSpans,
-                sourceRow,
-                sourceCol,
-                direction === "horizontal" ? sourceRow : rowIndex,
-                direction === "vertical" ? sourceCol : colIndex,
-                direction
-            );
-            const previewSet = new Set(cells.map(c => `cell_${c.row}_${c.col}`));
-            setAutofillPreviewCells(previewSet);
+    const updateAutofillDrag = useCallback(
+        (state: AutofillDragState) => {
+            setAutofillDrag(state);
+            const cells = getAutofillCells(tableRows, mergeSpans, state.source, state.currentRow, state.currentCol, state.mode);
+            setAutofillPreviewCells(new Set(cells.map(c => `cell_${c.row}_${c.col}`)));
         },
         [tableRows, mergeSpans]
     );
 
-    const handleAutofillMouseUp = useCallback(() => {
-        if (!autofillDragRef.current.active) return;
+    useEffect(() => {
+        if (!autofillDrag.active) return;
+        const onMove = (event: PointerEvent) => {
+            const position = nextPointerCell(event);
+            if (!position) return;
+            updateAutofillDrag({
+                ...autofillDragRef.current,
+                mode: getAutofillMode(event),
+                currentRow: position.row,
+                currentCol: position.col
+            });
+        };
+        document.addEventListener("pointermove", onMove);
+        return () => document.removeEventListener("pointermove", onMove);
+    }, [autofillDrag.active, nextPointerCell, updateAutofillDrag]);
 
-        const { sourceRow, sourceCol, direction, currentRow, currentCol } = autofillDragRef.current;
+    // Pressing or releasing the copy modifier mid-drag updates the preview
+    useEffect(() => {
+        if (!autofillDrag.active) return;
+        const handleModifier = (event: KeyboardEvent) => {
+            const mode = getAutofillMode(event);
+            if (mode !== autofillDragRef.current.mode) updateAutofillDrag({ ...autofillDragRef.current, mode });
+        };
+        document.addEventListener("keydown", handleModifier);
+        document.addEventListener("keyup", handleModifier);
+        return () => {
+            document.removeEventListener("keydown", handleModifier);
+            document.removeEventListener("keyup", handleModifier);
+        };
+    }, [autofillDrag.active, updateAutofillDrag]);
 
-        const targetRow = direction === "horizontal" ? sourceRow : currentRow;
-        const targetCol = direction === "vertical" ? sourceCol : currentCol;
+    const handleAutofillPointerUp = useCallback(
+        (event: PointerEvent) => {
+            if (!autofillDragRef.current.active) return;
 
-        const fillCells = getAutofillCells(
-            tableRows,
-            mergeSpans,
-            sourceRow,
-            sourceCol,
-            targetRow,
-            targetCol,
-            direction
-        );
+            const { source, currentRow, currentCol } = autofillDragRef.current;
+            const mode = getAutofillMode(event);
 
-        if (fillCells.length > 0) {
-            setTableRows(prevRows => {
-                const newRows = prevRows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
-                fillCells.forEach(({ row, col, value }) => {
-                    const cell = newRows.find(r => r.rowIndex === row)?.cells.find(c => c.columnIndex === col);
-                    if (!cell) return;
-                    cell.sequenceNumber = String(value);
-                    if (cell.isMerged && cell.mergeId) {
-                        const mId = cell.mergeId;
-                        newRows.forEach(r => r.cells.forEach(c => {
-                            if (c.mergeId === mId) c.sequenceNumber = String(value);
-                        }));
-                    }
-                });
-                const spans = computeMergeSpans(newRows);
-                updateCellStatistics(newRows, spans);
-                saveToBackend(newRows, rowCount, columnCount);
-                if (props.onCellClick?.canExecute) props.onCellClick.execute();
-                return newRows;
-            });
-        }
+            const prevRows = tableRowsRef.current;
+            const newRows = applyAutofill(prevRows, source, currentRow, currentCol, mode);
+            if (newRows !== prevRows) {
+                commitCellChange(newRows, "Autofill");
+                notifyCellClick(source.minRow, source.minCol, newRows);
+            }
 
-        setAutofillDrag({
-            active: false,
-            sourceRow: 0,
-            sourceCol: 0,
-            sourceValue: 0,
-            direction: null,
-            currentRow: 0,
-            currentCol: 0
-        });
+            setAutofillDrag(IDLE_AUTOFILL);
+            setAutofillPreviewCells(new Set());
+        },
+        [commitCellChange, notifyCellClick]
+    );
+
+    // A cancelled pointer (e.g. the browser took over the gesture) fills nothing
+    const cancelAutofill = useCallback(() => {
+        if (!autofillDragRef.current.active) return;
+        setAutofillDrag(IDLE_AUTOFILL);
         setAutofillPreviewCells(new Set());
-    }, [tableRows, mergeSpans, updateCellStatistics, saveToBackend, rowCount, columnCount, props.onCellClick]);
+    }, []);
 
     useEffect(() => {
-        document.addEventListener("mouseup", handleAutofillMouseUp);
-        return () => document.removeEventListener("mouseup", handleAutofillMouseUp);
-    }, [handleAutofillMouseUp]);
+        document.addEventListener("pointerup", handleAutofillPointerUp);
+        document.addEventListener("pointercancel", cancelAutofill);
+        return () => {
+            document.removeEventListener("pointerup", handleAutofillPointerUp);
+            document.removeEventListener("pointercancel", cancelAutofill);
+        };
+    }, [handleAutofillPointerUp, cancelAutofill]);
 
     // ── Styles ────────────────────────────────────────────────────────────────
     const tableStyle = { borderColor: props.tableBorderColor || "#dee2e6" };
@@ -959,25 +2195,287 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
     const blockedCellStyle = { backgroundColor: "white", borderColor: "#fdd835" };
 
     const hasSelection = selectedCells.size > 0;
+    // Exactly one cell is in the tab order: the focused one, or the first cell until the grid is entered
+    const tabStopCellId = focusedCell ? `cell_${focusedCell.row}_${focusedCell.col}` : tableRows[0]?.cells[0]?.id;
+    // Read-only hides every editing control; only the diagram buttons stay
+    const showGenerateControl = props.showGenerateButton && !isReadOnly;
+    const showAutoNumberControl = props.showAutoNumberButton && !isReadOnly;
+    const showHistoryControls = props.showUndoRedoButtons && (canUndo || canRedo) && !isReadOnly;
+    const showSaveControls = props.showSaveButtons && !isReadOnly;
+    const showFileControls = props.showImportExportButtons && !isReadOnly;
+    const showDiagramControls = props.showDiagramButtons;
+    const showTemplateControls = props.showTemplateButtons && !isReadOnly;
+    const showSelectionControls = hasSelection && isSelectionAllowed && !isReadOnly;
+    const autoNumberValid =
+        !!autoNumberOptions && Number.isInteger(autoNumberOptions.start) && Number.isInteger(autoNumberOptions.step);
+    const autoNumberPreview = autoNumberOptions
+        ? [0, 1, 2]
+            .map(i => formatLabel(autoNumberOptions.template, autoNumberOptions.start + i * autoNumberOptions.step, autoNumberOptions.prefix))
+            .join(", ")
+        : "";
 
     // ── Render ────────────────────────────────────────────────────────────────
+    const statistics = getTableStatistics(tableRows);
+    const stateCounts = cellStates.length > 0 ? getStateCounts(tableRows) : {};
+    const gridColumnCount = tableRows[0]?.cells.length ?? 0;
+    const visibleRows = gridWindow ? tableRows.slice(gridWindow.minRow - 1, gridWindow.maxRow) : tableRows;
+    const visibleColumns = gridWindow
+        ? Array.from({ length: gridWindow.maxCol - gridWindow.minCol + 1 }, (_, i) => gridWindow.minCol + i)
+        : Array.from({ length: gridColumnCount }, (_, i) => i + 1);
+    // The virtualised grid always has headers: its sticky headers keep the position readable
+    const hasHeaders = !!props.showHeaders || !!gridWindow;
+
+    const renderHeader = (axis: HeaderAxis, index: number): ReactElement => {
+        const label = (axis === "row" ? rowLabels : columnLabels)[index - 1] ?? String(index);
+        const isEditing = editingHeader?.axis === axis && editingHeader.index === index;
+        if (isEditing) {
+            return (
+                <input
+                    type="text"
+                    className="tableview-header-input"
+                    defaultValue={label}
+                    autoFocus
+                    aria-label={`${axis === "row" ? "Row" : "Column"} ${index} label`}
+                    onFocus={e => e.target.select()}
+                    onBlur={e => renameHeader(axis, index, e.target.value)}
+                    onKeyDown={e => {
+                        e.stopPropagation();
+                        if (e.key === "Enter") renameHeader(axis, index, e.currentTarget.value);
+                        else if (e.key === "Escape") setEditingHeader(null);
+                    }}
+                />
+            );
+        }
+        return (
+            <button
+                type="button"
+                className="tableview-header-button"
+                tabIndex={-1}
+                title={isReadOnly ? undefined : "Click to select, double-click to rename"}
+                onClick={e => selectHeader(axis, index, e.ctrlKey || e.metaKey)}
+                onDoubleClick={() => { if (!isReadOnly) setEditingHeader({ axis, index }); }}
+            >
+                {label}
+            </button>
+        );
+    };
+
+    // The panel follows the focused cell; a merge member shows its group's details
+    const detailsCell = (() => {
+        if (!hasCellDetails || !focusedCell) return undefined;
+        const cell = getCellAt(tableRows, focusedCell.row, focusedCell.col);
+        const span = cell?.isMerged ? mergeSpans[cell.mergeId] : undefined;
+        return span ? getCellAt(tableRows, span.anchorRow, span.anchorCol) : cell;
+    })();
+
+    const renderDetailsField = (cell: CellObject, field: CellField): ReactElement => {
+        const value = cell.metadata?.[field.key];
+        const inputId = `${props.name}-field-${field.key}`;
+        const onChange = (input: string): void =>
+            handleMetadataChange(cell.rowIndex, cell.columnIndex, field.key, parseFieldInput(field, input));
+        let control: ReactElement;
+        if (isReadOnly) {
+            control = <span id={inputId} className="tableview-details-value">{fieldInputValue(value) || "—"}</span>;
+        } else if (field.type === "enum") {
+            control = (
+                <select id={inputId} value={fieldInputValue(value)} onChange={e => onChange(e.target.value)}>
+                    <option value="" />
+                    {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        } else {
+            control = (
+                <input
+                    id={inputId}
+                    type={field.type === "text" ? "text" : field.type}
+                    value={fieldInputValue(value)}
+                    onChange={e => onChange(e.target.value)}
+                    onBlur={finishEditing}
+                />
+            );
+        }
+        return (
+            <div key={field.key} className="tableview-details-field">
+                <label htmlFor={inputId}>{field.caption}</label>
+                {control}
+            </div>
+        );
+    };
+
+    // Row header + left spacer + window + right spacer, for the full-width spacer rows
+    const renderedColumnCount = gridWindow
+        ? 1 + (gridWindow.minCol > 1 ? 1 : 0) + visibleColumns.length + (gridWindow.maxCol < gridColumnCount ? 1 : 0)
+        : gridColumnCount;
+
     return (
-        <div className={classNames("tableview-container", props.class)} style={props.style}>
+        <div
+            className={classNames("tableview-container", props.class, { "tableview-readonly": isReadOnly })}
+            style={props.style}
+            tabIndex={-1}
+            onKeyDown={handleKeyDown}
+        >
 
             {/* ══ Controls bar ══ */}
-            {(props.showGenerateButton || (hasSelection && isSelectionAllowed)) && (
+            {(showGenerateControl || showAutoNumberControl || showHistoryControls || showSaveControls || showFileControls || showDiagramControls || showTemplateControls || showSelectionControls) && (
                 <div className="tableview-controls">
 
-                    {props.showGenerateButton && (
+                    {showGenerateControl && (
                         <button className="tableview-btn tableview-btn-primary" onClick={applyDimensions}>
                             Generate Table
                         </button>
                     )}
 
-                    {hasSelection && isSelectionAllowed && (
+                    {showAutoNumberControl && (
+                        <button
+                            className="tableview-btn tableview-btn-info"
+                            onClick={autoNumberOptions ? () => setAutoNumberOptions(null) : openAutoNumber}
+                            title="Number every cell in a chosen order"
+                        >
+                            Auto-number
+                        </button>
+                    )}
+
+                    {showHistoryControls && (
+                        <div className="tableview-history-controls">
+                            <button
+                                className="tableview-btn tableview-btn-secondary"
+                                onClick={undo}
+                                disabled={!canUndo}
+                                title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+                            >
+                                Undo
+                            </button>
+                            <button
+                                className="tableview-btn tableview-btn-secondary"
+                                onClick={redo}
+                                disabled={!canRedo}
+                                title={canRedo ? `Redo ${redoLabel} (Ctrl+Y)` : "Nothing to redo"}
+                            >
+                                Redo
+                            </button>
+                        </div>
+                    )}
+
+                    {showSaveControls && (
+                        <div className="tableview-save-controls">
+                            <button
+                                className="tableview-btn tableview-btn-primary"
+                                onClick={saveChanges}
+                                disabled={!isDirty}
+                                title={isDirty ? "Commit the changes (Ctrl+S)" : "No unsaved changes"}
+                            >
+                                Save
+                            </button>
+                            <button
+                                className="tableview-btn tableview-btn-secondary"
+                                onClick={discardChanges}
+                                disabled={!isDirty}
+                                title={isDirty ? "Restore the last saved table" : "No unsaved changes"}
+                            >
+                                Discard
+                            </button>
+                            {isDirty && <span className="tableview-dirty-indicator">Unsaved changes</span>}
+                        </div>
+                    )}
+
+                    {showFileControls && (
+                        <div className="tableview-file-controls">
+                            <button className="tableview-btn tableview-btn-info" onClick={exportCsv} title="Download every cell with its number, blocked, blank and merge state as CSV">
+                                Export CSV
+                            </button>
+                            <button
+                                className="tableview-btn tableview-btn-info"
+                                onClick={exportXlsx}
+                                title="Download an Excel workbook with merges and cell states"
+                            >
+                                Export XLSX
+                            </button>
+                            <button
+                                className="tableview-btn tableview-btn-secondary"
+                                onClick={() => importInputRef.current?.click()}
+                                title="Replace the table with a layout from a .csv or .xlsx file"
+                            >
+                                Import
+                            </button>
+                            <input
+                                ref={importInputRef}
+                                type="file"
+                                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                                style={{ display: "none" }}
+                                onChange={handleImportFile}
+                            />
+                        </div>
+                    )}
+
+                    {showDiagramControls && (
+                        <div className="tableview-file-controls">
+                            <button className="tableview-btn tableview-btn-info" onClick={exportSvg} title="Download a drawing of the layout as SVG">
+                                Export SVG
+                            </button>
+                            <button className="tableview-btn tableview-btn-info" onClick={exportPng} title="Download a drawing of the layout as PNG">
+                                Export PNG
+                            </button>
+                            <button className="tableview-btn tableview-btn-secondary" onClick={printDiagram} title="Print the layout with labels and legend">
+                                Print
+                            </button>
+                            {canSaveDiagramFile && (
+                                <button
+                                    className="tableview-btn tableview-btn-secondary"
+                                    onClick={saveDiagramFile}
+                                    title={`Store the drawing as ${props.diagramFileFormat === "svg" ? "SVG" : "PNG"} in the diagram file`}
+                                >
+                                    Save diagram
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {showTemplateControls && (
+                        <div className="tableview-template-controls">
+                            <select
+                                className="tableview-template-picker"
+                                value={selectedTemplate}
+                                onChange={e => setSelectedTemplate(e.target.value)}
+                                aria-label="Layout template"
+                                disabled={templates.length === 0}
+                            >
+                                <option value="">{templates.length === 0 ? "No templates" : "Choose a template…"}</option>
+                                {templates.map(template => (
+                                    <option key={template.name} value={template.name}>{template.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                className="tableview-btn tableview-btn-secondary"
+                                onClick={applyTemplate}
+                                disabled={!templates.some(t => t.name === selectedTemplate)}
+                                title="Replace the table with the chosen template"
+                            >
+                                Apply
+                            </button>
+                            <input
+                                className="tableview-template-name"
+                                type="text"
+                                value={templateName}
+                                placeholder="Template name"
+                                aria-label="New template name"
+                                onChange={e => setTemplateName(e.target.value)}
+                                onKeyDown={e => { if (e.key === "Enter") saveTemplate(); }}
+                            />
+                            <button
+                                className="tableview-btn tableview-btn-info"
+                                onClick={saveTemplate}
+                                disabled={templateName.trim() === ""}
+                                title="Save the current table as a template under this name"
+                            >
+                                Save as template
+                            </button>
+                        </div>
+                    )}
+
+                    {showSelectionControls && (
                         createElement("div", { style: { display: "contents" } },
 
-                            props.showGenerateButton && createElement("div", { className: "tableview-controls-divider" }),
+                            (showGenerateControl || showAutoNumberControl || showHistoryControls || showSaveControls || showFileControls || showDiagramControls || showTemplateControls) && createElement("div", { className: "tableview-controls-divider" }),
 
                             createElement("p", { className: "tableview-selection-info" },
                                 `${selectedCells.size} cell(s) selected`
@@ -986,18 +2484,20 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                             createElement("button", {
                                 className: "tableview-btn tableview-btn-info",
                                 onClick: selectAllCells,
-                                title: "Select all cells"
+                                title: "Select all cells (Ctrl+A)"
                             }, "Select All"),
 
                             hasMergingEnabled && createElement("div", { style: { display: "contents" } },
                                 createElement("button", {
                                     className: "tableview-btn tableview-btn-warning",
                                     onClick: mergeCells,
-                                    disabled: selectedCells.size < 2
+                                    disabled: selectedCells.size < 2,
+                                    title: "Merge the selected rectangle (Ctrl+M)"
                                 }, "Merge Selected"),
                                 createElement("button", {
                                     className: "tableview-btn tableview-btn-danger",
-                                    onClick: unmergeCells
+                                    onClick: unmergeCells,
+                                    title: "Split the selected merged cell (Ctrl+Shift+M)"
                                 }, "Unmerge")
                             ),
 
@@ -1005,15 +2505,65 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                                 createElement("button", {
                                     className: "tableview-btn tableview-btn-blank",
                                     onClick: blankSelectedCells,
-                                    title: "Hide selected cells visually — data is preserved"
+                                    title: "Hide selected cells visually — data is preserved (Ctrl+B)"
                                 }, "Blank"),
                                 createElement("button", {
                                     className: "tableview-btn tableview-btn-unblank",
                                     onClick: unblankSelectedCells,
-                                    title: "Restore selected blank cells back to normal"
+                                    title: "Restore selected blank cells back to normal (Ctrl+Shift+B)"
                                 }, "Unblank")
                             ),
 
+                            hasStatePickerEnabled && createElement("select", {
+                                className: "tableview-state-picker",
+                                value: "",
+                                onChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
+                                    applyCellState(e.target.value === CLEAR_STATE_OPTION ? "" : e.target.value),
+                                title: "Set the state of the selected cells",
+                                "aria-label": "Set state"
+                            },
+                                createElement("option", { value: "", disabled: true }, "Set state…"),
+                                cellStates.map(state =>
+                                    createElement("option", { key: state.stateKey, value: state.stateKey }, state.stateCaption || state.stateKey)
+                                ),
+                                createElement("option", { value: CLEAR_STATE_OPTION }, "No state")
+                            ),
+
+                            hasStructureEditingEnabled && createElement("div", { style: { display: "contents" } },
+                                createElement("button", {
+                                    className: "tableview-btn tableview-btn-structure",
+                                    onClick: () => insertRow("above"),
+                                    title: "Insert a row above the selection"
+                                }, "+ Row Above"),
+                                createElement("button", {
+                                    className: "tableview-btn tableview-btn-structure",
+                                    onClick: () => insertRow("below"),
+                                    title: "Insert a row below the selection"
+                                }, "+ Row Below"),
+                                createElement("button", {
+                                    className: "tableview-btn tableview-btn-structure",
+                                    onClick: () => insertColumn("left"),
+                                    title: "Insert a column left of the selection"
+                                }, "+ Column Left"),
+                                createElement("button", {
+                                    className: "tableview-btn tableview-btn-structure",
+                                    onClick: () => insertColumn("right"),
+                                    title: "Insert a column right of the selection"
+                                }, "+ Column Right"),
+                                createElement("button", {
+                                    className: "tableview-btn tableview-btn-danger",
+                                    onClick: deleteSelectedRows,
+                                    disabled: rowCount <= 1,
+                                    title: "Delete every row touched by the selection"
+                                }, "Delete Row"),
+                                createElement("button", {
+                                    className: "tableview-btn tableview-btn-danger",
+                                    onClick: deleteSelectedColumns,
+                                    disabled: columnCount <= 1,
+                                    title: "Delete every column touched by the selection"
+                                }, "Delete Column")
+                            ),
+
                             createElement("button", {
                                 className: "tableview-btn tableview-btn-secondary",
                                 onClick: clearSelection
@@ -1023,53 +2573,249 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                 </div>
             )}
 
+            {/* ══ Auto-number panel ══ */}
+            {autoNumberOptions && !isReadOnly && (
+                <div className="tableview-autonumber" role="group" aria-label="Auto-number">
+                    <div className="tableview-autonumber-fields">
+                        <label>
+                            Order
+                            <select
+                                value={autoNumberOptions.order}
+                                onChange={e => updateAutoNumber({ order: e.target.value as AutoNumberOrder })}
+                            >
+                                {AUTO_NUMBER_ORDERS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label>
+                            Start corner
+                            <select
+                                value={autoNumberOptions.corner}
+                                onChange={e => updateAutoNumber({ corner: e.target.value as AutoNumberCorner })}
+                            >
+                                {AUTO_NUMBER_CORNERS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label>
+                            Start
+                            <input
+                                type="number"
+                                step={1}
+                                value={isNaN(autoNumberOptions.start) ? "" : autoNumberOptions.start}
+                                onChange={e => updateAutoNumber({ start: parseInt(e.target.value, 10) })}
+                            />
+                        </label>
+                        <label>
+                            Step
+                            <input
+                                type="number"
+                                step={1}
+                                value={isNaN(autoNumberOptions.step) ? "" : autoNumberOptions.step}
+                                onChange={e => updateAutoNumber({ step: parseInt(e.target.value, 10) })}
+                            />
+                        </label>
+                        <label>
+                            Prefix
+                            <input
+                                type="text"
+                                value={autoNumberOptions.prefix}
+                                onChange={e => updateAutoNumber({ prefix: e.target.value })}
+                            />
+                        </label>
+                        <label>
+                            Label template
+                            <input
+                                type="text"
+                                value={autoNumberOptions.template}
+                                onChange={e => updateAutoNumber({ template: e.target.value })}
+                                placeholder={DEFAULT_LABEL_TEMPLATE}
+                                title="{n} is the number, {n:02} pads it to two digits, {prefix} is the prefix"
+                            />
+                        </label>
+                        <label className="tableview-autonumber-check">
+                            <input
+                                type="checkbox"
+                                checked={autoNumberOptions.includeBlocked}
+                                onChange={e => updateAutoNumber({ includeBlocked: e.target.checked })}
+                            />
+                            Number blocked cells
+                        </label>
+                        {hasBlankingEnabled && (
+                            <label className="tableview-autonumber-check">
+                                <input
+                                    type="checkbox"
+                                    checked={autoNumberOptions.includeBlank}
+                                    onChange={e => updateAutoNumber({ includeBlank: e.target.checked })}
+                                />
+                                Number blank cells
+                            </label>
+                        )}
+                    </div>
+                    <div className="tableview-autonumber-actions">
+                        <span className="tableview-autonumber-preview">
+                            {autoNumberValid ? `${autoNumberPreview}, …` : "Start and step must be whole numbers"}
+                        </span>
+                        <button className="tableview-btn tableview-btn-primary" onClick={applyAutoNumber} disabled={!autoNumberValid}>
+                            Apply
+                        </button>
+                        <button className="tableview-btn tableview-btn-secondary" onClick={() => setAutoNumberOptions(null)}>
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* ══ Feedback ══ */}
+            {feedbackMessages.length > 0 && (
+                <div className="tableview-feedback">
+                    {feedbackMessages.map(message => (
+                        <div
+                            key={message.id}
+                            className={classNames("tableview-feedback-message", `tableview-feedback-${message.severity}`)}
+                            role={message.severity === "error" ? "alert" : "status"}
+                        >
+                            <span>{message.text}</span>
+                            {message.isQuestion ? (
+                                <span className="tableview-feedback-actions">
+                                    <button className="tableview-btn tableview-btn-primary" onClick={() => answerFeedback(message.id, true)}>
+                                        Yes
+                                    </button>
+                                    <button className="tableview-btn tableview-btn-secondary" onClick={() => answerFeedback(message.id, false)}>
+                                        No
+                                    </button>
+                                </span>
+                            ) : (
+                                <button className="tableview-problems-dismiss" onClick={() => dismissFeedback(message.id)} title="Dismiss">
+                                    ×
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* ══ Stored data problems ══ */}
+            {dataProblems.length > 0 && (
+                <div
+                    className={classNames("tableview-problems", {
+                        "tableview-problems-error": dataProblems.some(p => p.severity === "error")
+                    })}
+                    role="alert"
+                >
+                    <div className="tableview-problems-header">
+                        <strong>
+                            {dataProblems.some(p => p.severity === "error")
+                                ? "The stored table data could not be loaded"
+                                : "The stored table data was repaired"}
+                        </strong>
+                        <button className="tableview-problems-dismiss" onClick={() => setDataProblems([])} title="Dismiss">
+                            ×
+                        </button>
+                    </div>
+                    <ul>
+                        {dataProblems.map((problem, idx) => <li key={idx}>{problem.message}</li>)}
+                    </ul>
+                </div>
+            )}
+
             {/* ══ Table ══ */}
             <div className="tableview-table-section">
-                {props.showAddColumnButton && (
+                {props.showAddColumnButton && !isReadOnly && (
                     <div className="tableview-add-column-container">
                         <button className="tableview-btn tableview-btn-add" onClick={addColumn} title="Add Column">+</button>
                     </div>
                 )}
 
                 <div className="tableview-table-row-wrapper">
-                    {props.showAddRowButton && (
+                    {props.showAddRowButton && !isReadOnly && (
                         <div className="tableview-add-row-container">
                             <button className="tableview-btn tableview-btn-add" onClick={addRow} title="Add Row">+</button>
                         </div>
                     )}
 
                     <div
+                        ref={tableWrapperRef}
                         className={classNames("tableview-table-wrapper", {
                             "tableview-autofill-dragging": autofillDrag.active
                         })}
                         style={{ userSelect: (isDragging || autofillDrag.active) ? "none" : "auto" }}
                     >
                         <table
-                            className="tableview-table"
-                            style={tableStyle}
-                            data-rows={rowCount}
-                            data-cols={columnCount}
+                            ref={tableRef}
+                            className={classNames("tableview-table", { "tableview-table-virtual": !!gridWindow })}
+                            style={gridWindow ? { ...tableStyle, width: VIRTUAL_HEADER_WIDTH + gridColumnCount * VIRTUAL_CELL_WIDTH } : tableStyle}
+                            onKeyDown={handleGridKeyDown}
+                            data-rows={gridWindow ? undefined : rowCount}
+                            data-cols={gridWindow ? undefined : columnCount}
+                            role="grid"
+                            aria-label={`Cavity layout, ${rowCount} rows by ${columnCount} columns`}
+                            aria-rowcount={rowCount}
+                            aria-colcount={columnCount}
+                            aria-multiselectable={isSelectionAllowed && !isReadOnly}
+                            aria-readonly={!canEditCells && !canToggleBlocked}
                         >
+                            {hasHeaders && (
+                                <thead>
+                                    <tr role="row">
+                                        <th
+                                            className="tableview-header-corner"
+                                            style={gridWindow ? { width: VIRTUAL_HEADER_WIDTH } : undefined}
+                                            aria-hidden="true"
+                                        />
+                                        {gridWindow && gridWindow.minCol > 1 && (
+                                            <th className="tableview-spacer" style={{ width: (gridWindow.minCol - 1) * VIRTUAL_CELL_WIDTH }} aria-hidden="true" />
+                                        )}
+                                        {visibleColumns.map(col => (
+                                            <th
+                                                key={col}
+                                                className="tableview-column-header"
+                                                role="columnheader"
+                                                aria-colindex={col}
+                                                style={gridWindow ? { width: VIRTUAL_CELL_WIDTH } : undefined}
+                                            >
+                                                {renderHeader("column", col)}
+                                            </th>
+                                        ))}
+                                        {gridWindow && gridWindow.maxCol < gridColumnCount && (
+                                            <th className="tableview-spacer" style={{ width: (gridColumnCount - gridWindow.maxCol) * VIRTUAL_CELL_WIDTH }} aria-hidden="true" />
+                                        )}
+                                    </tr>
+                                </thead>
+                            )}
                             <tbody>
-                                {tableRows.map(row => (
-                                    <tr key={row.id}>
-                                        {row.cells.map(cell => {
+                                {gridWindow && gridWindow.minRow > 1 && (
+                                    <tr className="tableview-spacer-row" style={{ height: (gridWindow.minRow - 1) * VIRTUAL_CELL_HEIGHT }} aria-hidden="true">
+                                        <td className="tableview-spacer" colSpan={renderedColumnCount} />
+                                    </tr>
+                                )}
+                                {visibleRows.map(row => (
+                                    <tr key={row.id} role="row" aria-rowindex={row.rowIndex} style={gridWindow ? { height: VIRTUAL_CELL_HEIGHT } : undefined}>
+                                        {hasHeaders && (
+                                            <th className="tableview-row-header" role="rowheader" scope="row">
+                                                {renderHeader("row", row.rowIndex)}
+                                            </th>
+                                        )}
+                                        {gridWindow && gridWindow.minCol > 1 && <td className="tableview-spacer" aria-hidden="true" />}
+                                        {(gridWindow ? row.cells.slice(gridWindow.minCol - 1, gridWindow.maxCol) : row.cells).map(cell => {
                                             if (isCellHidden(cell, mergeSpans)) return null;
 
                                             const isSelected = selectedCells.has(cell.id);
                                             const isAutofillPreview = autofillPreviewCells.has(cell.id);
                                             const isAutofillSource =
                                                 autofillDrag.active &&
-                                                cell.rowIndex === autofillDrag.sourceRow &&
-                                                cell.columnIndex === autofillDrag.sourceCol;
+                                                cell.rowIndex >= autofillDrag.source.minRow &&
+                                                cell.rowIndex <= autofillDrag.source.maxRow &&
+                                                cell.columnIndex >= autofillDrag.source.minCol &&
+                                                cell.columnIndex <= autofillDrag.source.maxCol;
 
                                             const { rowSpan, colSpan } = getCellSpan(cell, mergeSpans);
+                                            // Merges running past the window's bottom/right edge are cut off there
+                                            const drawnRowSpan = gridWindow ? Math.min(rowSpan, gridWindow.maxRow - cell.rowIndex + 1) : rowSpan;
+                                            const drawnColSpan = gridWindow ? Math.min(colSpan, gridWindow.maxCol - cell.columnIndex + 1) : colSpan;
 
                                             const blankEdgeStyle: React.CSSProperties = {};
                                             if (cell.isBlank) {
-                                                const cellToRight = row.cells.find(c => c.columnIndex === cell.columnIndex + 1);
-                                                const rowBelow = tableRows.find(r => r.rowIndex === cell.rowIndex + 1);
-                                                const cellBelow = rowBelow?.cells.find(c => c.columnIndex === cell.columnIndex);
+                                                const cellToRight = getCellAt(tableRows, cell.rowIndex, cell.columnIndex + 1);
+                                                const cellBelow = getCellAt(tableRows, cell.rowIndex + 1, cell.columnIndex);
 
                                                 const isLastBlankRight = !cellToRight || !cellToRight.isBlank;
                                                 const isLastBlankBottom = !cellBelow || !cellBelow.isBlank;
@@ -1088,50 +2834,80 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                                                             ? blockedCellStyle
                                                             : {};
 
+                                            const stateDef = cell.isBlank ? undefined : stateByKey.get(cell.state);
+                                            const stateCaption = stateDef ? stateDef.stateCaption || stateDef.stateKey : undefined;
+                                            const hasStateColor = !!stateDef?.stateColor && !isSelected;
+                                            const notes = hasNotesEnabled && !cell.isBlank ? getCellNotes(cell) : "";
+
                                             const isMergedAnchor = cell.isMerged && !isCellHidden(cell, mergeSpans);
                                             const showAutofillHandle =
                                                 !cell.isBlank &&
                                                 !isCellHidden(cell, mergeSpans) &&
-                                                props.enableCellEditing &&
-                                                isInteger(cell.sequenceNumber) &&
+                                                canEditCells &&
+                                                cell.sequenceNumber.trim() !== "" &&
+                                                cell.sequenceNumber !== "-" &&
                                                 (!cell.isMerged || isMergedAnchor);
 
                                             return (
                                                 <td
                                                     key={cell.id}
-                                                    rowSpan={rowSpan}
-                                                    colSpan={colSpan}
+                                                    rowSpan={drawnRowSpan}
+                                                    colSpan={drawnColSpan}
+                                                    data-cell-id={cell.id}
+                                                    role="gridcell"
+                                                    aria-colindex={cell.columnIndex}
+                                                    aria-rowspan={rowSpan > 1 ? rowSpan : undefined}
+                                                    aria-colspan={colSpan > 1 ? colSpan : undefined}
+                                                    aria-selected={isSelectionAllowed ? isSelected : undefined}
+                                                    aria-invalid={validation.invalidCellIds.has(cell.id) || undefined}
+                                                    aria-label={describeCell(cell, rowSpan, colSpan, validationMessagesByCell.get(cell.id), stateCaption, notes !== "")}
+                                                    tabIndex={cell.id === tabStopCellId ? 0 : -1}
+                                                    onFocus={() => setFocusedCell({ row: cell.rowIndex, col: cell.columnIndex })}
                                                     className={classNames("tableview-cell", {
                                                         "tableview-cell-merged": cell.isMerged && !cell.isBlank,
                                                         "tableview-cell-selected": isSelected && !cell.isBlank,
                                                         "tableview-cell-blocked": cell.isBlocked && !cell.isBlank,
                                                         "tableview-cell-blank": cell.isBlank,
+                                                        "tableview-cell-state": hasStateColor,
                                                         "tableview-cell-dragging": isDragging && isSelectionAllowed,
                                                         "tableview-cell-autofill-preview": isAutofillPreview && !cell.isBlank,
-                                                        "tableview-cell-autofill-source": isAutofillSource
+                                                        "tableview-cell-autofill-source": isAutofillSource,
+                                                        "tableview-cell-focused": cell.id === tabStopCellId && !!focusedCell,
+                                                        "tableview-cell-invalid": validation.invalidCellIds.has(cell.id) && !cell.isBlank
                                                     })}
                                                     onClick={e => {
-                                                        if (props.enableCheckbox === true) {
+                                                        keyboardAnchorRef.current = null;
+                                                        focusCell(cell.rowIndex, cell.columnIndex);
+                                                        if (canToggleBlocked) {
                                                             handleCheckboxChange(cell.rowIndex, cell.columnIndex);
                                                         }
                                                         handleCellClick(cell.rowIndex, cell.columnIndex, e);
                                                     }}
-                                                    onMouseDown={e => handleCellMouseDown(cell.rowIndex, cell.columnIndex, e)}
-                                                    onMouseEnter={() => {
-                                                        handleCellMouseEnter(cell.rowIndex, cell.columnIndex);
-                                                        handleCellMouseEnterAutofill(cell.rowIndex, cell.columnIndex);
-                                                    }}
-                                                    style={cellInlineStyle}
+                                                    onPointerDown={e => handleCellPointerDown(cell.rowIndex, cell.columnIndex, e)}
+                                                    onMouseDown={handleCellMouseDown}
+                                                    onContextMenu={e => { if (isDragging) e.preventDefault(); }}
+                                                    style={
+                                                        hasStateColor
+                                                            ? { ...cellInlineStyle, ["--tableview-state-color" as string]: stateDef!.stateColor }
+                                                            : cellInlineStyle
+                                                    }
+                                                    title={validationMessagesByCell.get(cell.id)?.join("\n") ?? (notes || stateCaption)}
                                                 >
                                                     {!cell.isBlank && (
                                                         <div className="tableview-cell-content">
-                                                            {props.enableCheckbox ? (
+                                                            {stateDef && (
+                                                                <span className="tableview-cell-state-icon" aria-hidden="true">
+                                                                    {renderStateIcon(stateDef.stateIcon?.value, stateCaption!)}
+                                                                </span>
+                                                            )}
+                                                            {canToggleBlocked ? (
                                                                 <input
                                                                     type="checkbox"
                                                                     className="tableview-checkbox"
                                                                     checked={cell.isBlocked}
                                                                     readOnly
                                                                     tabIndex={-1}
+                                                                    aria-hidden="true"
                                                                 />
                                                             ) : (
                                                                 <input
@@ -1140,9 +2916,10 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                                                                     checked={cell.isBlocked}
                                                                     readOnly
                                                                     tabIndex={-1}
+                                                                    aria-hidden="true"
                                                                 />
                                                             )}
-                                                            {props.enableCellEditing ? (
+                                                            {canEditCells ? (
                                                                 <input
                                                                     type="text"
                                                                     className="tableview-cell-input"
@@ -1150,7 +2927,11 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                                                                     onChange={e => handleCellValueChange(cell.rowIndex, cell.columnIndex, e.target.value)}
                                                                     onClick={e => e.stopPropagation()}
                                                                     onMouseDown={e => e.stopPropagation()}
+                                                                    onFocus={() => { editStartValueRef.current = cell.sequenceNumber; }}
+                                                                    onBlur={() => finishCellEdit(cell.rowIndex, cell.columnIndex)}
+                                                                    tabIndex={-1}
                                                                     placeholder="#"
+                                                                    aria-label={`Cavity number, row ${cell.rowIndex}, column ${cell.columnIndex}`}
                                                                 />
                                                             ) : (
                                                                 <span
@@ -1163,34 +2944,129 @@ const Tableview = (props: CavityTemplateContainerProps): ReactElement => {
                                                         </div>
                                                     )}
 
+                                                    {notes && <span className="tableview-cell-note" aria-hidden="true" />}
+
                                                     {/* ── Autofill handle ── */}
                                                     {showAutofillHandle && (
                                                         <div
                                                             className="tableview-autofill-handle"
-                                                            onMouseDown={e => handleAutofillHandleMouseDown(cell.rowIndex, cell.columnIndex, e)}
-                                                            title="Drag to autofill with incrementing values"
+                                                            aria-hidden="true"
+                                                            onPointerDown={e => handleAutofillHandlePointerDown(cell.rowIndex, cell.columnIndex, e)}
+                                                            title="Drag to continue the series (hold Ctrl to copy the value)"
                                                         />
                                                     )}
                                                 </td>
                                             );
                                         })}
+                                        {gridWindow && gridWindow.maxCol < gridColumnCount && <td className="tableview-spacer" aria-hidden="true" />}
                                     </tr>
                                 ))}
+                                {gridWindow && gridWindow.maxRow < tableRows.length && (
+                                    <tr
+                                        className="tableview-spacer-row"
+                                        style={{ height: (tableRows.length - gridWindow.maxRow) * VIRTUAL_CELL_HEIGHT }}
+                                        aria-hidden="true"
+                                    >
+                                        <td className="tableview-spacer" colSpan={renderedColumnCount} />
+                                    </tr>
+                                )}
                             </tbody>
                         </table>
                     </div>
+
+                    {/* ── Cell details panel ── */}
+                    {hasCellDetails && (
+                        <aside className="tableview-details" aria-label="Cell details">
+                            {detailsCell ? (
+                                <div className="tableview-details-body">
+                                    <h4 className="tableview-details-title">
+                                        Cell {formatCellLabel(rowLabels[detailsCell.rowIndex - 1] ?? "", columnLabels[detailsCell.columnIndex - 1] ?? "")}
+                                    </h4>
+                                    {detailsCell.isBlank ? (
+                                        <p className="tableview-details-empty">Blank cells have no details</p>
+                                    ) : (
+                                        <div className="tableview-details-fields">
+                                            {metadataFields.map(field => renderDetailsField(detailsCell, field))}
+                                            {hasNotesEnabled && (
+                                                <div className="tableview-details-field">
+                                                    <label htmlFor={`${props.name}-notes`}>Notes</label>
+                                                    {isReadOnly ? (
+                                                        <p id={`${props.name}-notes`} className="tableview-details-value tableview-details-notes">
+                                                            {getCellNotes(detailsCell) || "—"}
+                                                        </p>
+                                                    ) : (
+                                                        <textarea
+                                                            id={`${props.name}-notes`}
+                                                            rows={4}
+                                                            value={getCellNotes(detailsCell)}
+                                                            onChange={e =>
+                                                                handleMetadataChange(
+                                                                    detailsCell.rowIndex,
+                                                                    detailsCell.columnIndex,
+                                                                    NOTES_KEY,
+                                                                    e.target.value === "" ? null : e.target.value
+                                                                )
+                                                            }
+                                                            onBlur={finishEditing}
+                                                        />
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className="tableview-details-empty">Select a cell to see its details</p>
+                            )}
+                        </aside>
+                    )}
                 </div>
             </div>
 
+            <div className="tableview-sr-only" role="status" aria-live="polite" aria-atomic="true">
+                {announcement}
+            </div>
+
             {/* ══ Info bar ══ */}
             <div className="tableview-info">
                 <p><strong>Table:</strong> {rowCount} rows × {columnCount} columns = {rowCount * columnCount} cells</p>
-                <p><strong>Blocked:</strong> {tableRows.reduce((s, row) => s + row.cells.filter(c => c.isBlocked).length, 0)}</p>
-                <p><strong>Merged:</strong> {tableRows.reduce((s, row) => s + row.cells.filter(c => c.isMerged && !isCellHidden(c, mergeSpans)).length, 0)}</p>
-                {hasBlankingEnabled && (
-                    <p><strong>Blank:</strong> {tableRows.reduce((s, row) => s + row.cells.filter(c => c.isBlank && !isCellHidden(c, mergeSpans)).length, 0)}</p>
+                <p><strong>Blocked:</strong> {statistics.blockedCells}</p>
+                <p><strong>Merged:</strong> {statistics.mergedCells}</p>
+                {isBlankingConfigured && <p><strong>Blank:</strong> {statistics.blankCells}</p>}
+                {cellStates.length > 0 && <p><strong>Active:</strong> {getActiveCellCount(tableRows, inactiveStates)}</p>}
+                {hasValidationRules(validationRules) && (
+                    <p
+                        className={classNames("tableview-info-validation", {
+                            "tableview-info-validation-failed": !validation.valid
+                        })}
+                        title={formatValidationMessage(validation)}
+                    >
+                        <strong>Validation:</strong>{" "}
+                        {validation.valid
+                            ? "All rules pass"
+                            : `${validation.issues.length} problem(s) — ${validation.issues[0].message}`}
+                    </p>
                 )}
             </div>
+
+            {/* ══ State legend ══ */}
+            {cellStates.length > 0 && (
+                <ul className="tableview-legend" aria-label="Cell states">
+                    {cellStates.map(state => (
+                        <li key={state.stateKey} className="tableview-legend-item">
+                            <span
+                                className="tableview-legend-swatch"
+                                style={{ backgroundColor: state.stateColor || "transparent" }}
+                                aria-hidden="true"
+                            >
+                                {renderStateIcon(state.stateIcon?.value, state.stateCaption || state.stateKey)}
+                            </span>
+                            {state.stateCaption || state.stateKey}
+                            <span className="tableview-legend-count">{stateCounts[state.stateKey] ?? 0}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
         </div>
     );
 };
@@ -0,0 +1,19 @@
+import { parseSelection } from "../selectionBinding";
+
+describe("parseSelection", () => {
+    const rowLabels = ["1", "2"];
+    const columnLabels = ["A", "B"];
+
+    it("reads ids and ranges", () => {
+        expect(parseSelection("cell_1_1:cell_2_1, cell_2_2", rowLabels, columnLabels)).toEqual([
+            { row: 1, col: 1 },
+            { row: 2, col: 1 },
+            { row: 2, col: 2 }
+        ]);
+    });
+
+    it("cuts a range to the table before expanding it", () => {
+        expect(parseSelection("cell_2_2:cell_1000000_1000000", rowLabels, columnLabels)).toEqual([{ row: 2, col: 2 }]);
+        expect(parseSelection("cell_5_5:cell_9_9", rowLabels, columnLabels)).toEqual([]);
+    });
+});
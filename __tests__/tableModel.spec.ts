@@ -0,0 +1,241 @@
+import {
+    applyAutofill,
+    autoNumberCells,
+    computeMergeSpans,
+    createMergeId,
+    createTable,
+    deserializeTable,
+    getCellAt,
+    getMergeRange,
+    mergeRange,
+    resizeTable,
+    serializeTable,
+    setBlank,
+    setBlocked,
+    setCellValue,
+    toggleBlocked,
+    unmergeAt
+} from "../tableModel";
+import { AutoNumberOptions } from "../autoNumber";
+import { TableRow } from "../tableTypes";
+
+const values = (rows: TableRow[]): string[][] => rows.map(row => row.cells.map(cell => cell.sequenceNumber));
+
+const withValues = (grid: string[][]): TableRow[] =>
+    grid.reduce(
+        (rows, line, r) => line.reduce((acc, value, c) => setCellValue(acc, r + 1, c + 1, value), rows),
+        createTable(grid.length, grid[0].length)
+    );
+
+describe("createTable", () => {
+    it("creates dense 1-based rows of empty cells", () => {
+        const rows = createTable(2, 3);
+        expect(rows).toHaveLength(2);
+        expect(rows[1].cells).toHaveLength(3);
+        expect(getCellAt(rows, 2, 3)).toMatchObject({
+            id: "cell_2_3",
+            rowIndex: 2,
+            columnIndex: 3,
+            sequenceNumber: "-"
+        });
+    });
+
+    it("returns no rows for a non-positive size", () => {
+        expect(createTable(0, 3)).toEqual([]);
+        expect(createTable(3, -1)).toEqual([]);
+    });
+});
+
+describe("resizeTable", () => {
+    it("grows with empty cells and keeps existing values", () => {
+        const rows = resizeTable(withValues([["1", "2"]]), 2, 3);
+        expect(values(rows)).toEqual([
+            ["1", "2", "-"],
+            ["-", "-", "-"]
+        ]);
+    });
+
+    it("trims trailing rows and columns", () => {
+        const rows = resizeTable(
+            withValues([
+                ["1", "2"],
+                ["3", "4"]
+            ]),
+            1,
+            1
+        );
+        expect(values(rows)).toEqual([["1"]]);
+    });
+
+    it("shrinks a merge that is cut by the trim", () => {
+        const merged = mergeRange(createTable(2, 3), { minRow: 1, maxRow: 1, minCol: 1, maxCol: 3 });
+        const rows = resizeTable(merged, 2, 2);
+        expect(rows[0].cells.every(cell => cell.isMerged)).toBe(true);
+        expect(computeMergeSpans(rows)[rows[0].cells[0].mergeId]).toMatchObject({ rowSpan: 1, colSpan: 2 });
+    });
+
+    it("returns the input when the size does not change", () => {
+        const rows = createTable(2, 2);
+        expect(resizeTable(rows, 2, 2)).toBe(rows);
+    });
+});
+
+describe("merge / unmerge", () => {
+    it("merges a rectangle and copies the top-left cell to every member", () => {
+        const rows = mergeRange(
+            withValues([
+                ["A", "B"],
+                ["C", "D"]
+            ]),
+            { minRow: 1, maxRow: 2, minCol: 1, maxCol: 2 }
+        );
+        expect(values(rows)).toEqual([
+            ["A", "A"],
+            ["A", "A"]
+        ]);
+        expect(new Set(rows.flatMap(row => row.cells.map(cell => cell.mergeId))).size).toBe(1);
+    });
+
+    it("accepts only rectangular selections", () => {
+        const rows = createTable(2, 2);
+        expect(getMergeRange(rows, ["cell_1_1", "cell_1_2", "cell_2_1"])).toBeNull();
+        expect(getMergeRange(rows, ["cell_1_1", "cell_2_2", "cell_1_2", "cell_2_1"])).toEqual({
+            minRow: 1,
+            maxRow: 2,
+            minCol: 1,
+            maxCol: 2
+        });
+    });
+
+    it("writes a value to the whole merge group", () => {
+        const merged = mergeRange(createTable(1, 2), { minRow: 1, maxRow: 1, minCol: 1, maxCol: 2 });
+        expect(values(setCellValue(merged, 1, 2, "7"))).toEqual([["7", "7"]]);
+    });
+
+    it("gives ranges with the same digits different ids", () => {
+        expect(createMergeId(1, 11, 2, 12)).not.toBe(createMergeId(11, 1, 21, 2));
+    });
+
+    it("unmerges the group that contains the cell", () => {
+        const merged = mergeRange(createTable(1, 3), { minRow: 1, maxRow: 1, minCol: 1, maxCol: 2 });
+        const rows = unmergeAt(merged, 1, 2);
+        expect(rows[0].cells.some(cell => cell.isMerged || cell.mergeId !== "")).toBe(false);
+        expect(unmergeAt(rows, 1, 1)).toBe(rows);
+    });
+});
+
+describe("block / blank", () => {
+    it("toggles the blocked flag", () => {
+        const rows = toggleBlocked(createTable(1, 2), 1, 2);
+        expect(getCellAt(rows, 1, 2)?.isBlocked).toBe(true);
+        expect(getCellAt(toggleBlocked(rows, 1, 2), 1, 2)?.isBlocked).toBe(false);
+    });
+
+    it("sets flags without touching the input rows", () => {
+        const rows = createTable(2, 2);
+        const blocked = setBlocked(
+            rows,
+            [
+                { row: 1, col: 1 },
+                { row: 2, col: 2 }
+            ],
+            true
+        );
+        const blank = setBlank(blocked, [{ row: 1, col: 2 }], true);
+        expect(rows.flatMap(row => row.cells).some(cell => cell.isBlocked || cell.isBlank)).toBe(false);
+        expect(blank.map(row => row.cells.map(cell => [cell.isBlocked, cell.isBlank]))).toEqual([
+            [
+                [true, false],
+                [false, true]
+            ],
+            [
+                [false, false],
+                [true, false]
+            ]
+        ]);
+    });
+
+    it("returns the input when no cell is changed", () => {
+        const rows = createTable(1, 1);
+        expect(setBlank(rows, [{ row: 5, col: 5 }], true)).toBe(rows);
+    });
+});
+
+describe("autoNumberCells", () => {
+    const options: AutoNumberOptions = {
+        order: "rowMajor",
+        corner: "topLeft",
+        start: 1,
+        step: 1,
+        template: "{n}",
+        prefix: "",
+        includeBlocked: false,
+        includeBlank: false
+    };
+
+    it("numbers cells in traversal order and counts a merge group once", () => {
+        const merged = mergeRange(createTable(2, 2), { minRow: 1, maxRow: 1, minCol: 1, maxCol: 2 });
+        expect(values(autoNumberCells(merged, options))).toEqual([
+            ["1", "1"],
+            ["2", "3"]
+        ]);
+    });
+
+    it("skips blocked and blank cells without changing them", () => {
+        let rows = withValues([["-", "X", "-", "Y"]]);
+        rows = setBlocked(rows, [{ row: 1, col: 2 }], true);
+        rows = setBlank(rows, [{ row: 1, col: 4 }], true);
+        expect(values(autoNumberCells(rows, options))).toEqual([["1", "X", "2", "Y"]]);
+    });
+});
+
+describe("applyAutofill", () => {
+    const source = { minRow: 1, maxRow: 1, minCol: 1, maxCol: 2 };
+
+    it("continues a numeric series", () => {
+        const rows = applyAutofill(withValues([["1", "2", "-", "-"]]), source, 1, 4, "series");
+        expect(values(rows)).toEqual([["1", "2", "3", "4"]]);
+    });
+
+    it("repeats the source cells in copy mode", () => {
+        const rows = applyAutofill(withValues([["1", "2", "-", "-"]]), source, 1, 4, "copy");
+        expect(values(rows)).toEqual([["1", "2", "1", "2"]]);
+    });
+
+    it("leaves blank cells empty", () => {
+        const rows = setBlank(withValues([["1", "-", "-"]]), [{ row: 1, col: 2 }], true);
+        expect(values(applyAutofill(rows, { minRow: 1, maxRow: 1, minCol: 1, maxCol: 1 }, 1, 3, "series"))).toEqual([
+            ["1", "-", "3"]
+        ]);
+    });
+});
+
+describe("serializeTable / deserializeTable", () => {
+    it("round-trips values, flags and merges", () => {
+        let rows = withValues([
+            ["A", "B", "C"],
+            ["D", "E", "F"]
+        ]);
+        rows = mergeRange(rows, { minRow: 1, maxRow: 2, minCol: 1, maxCol: 1 });
+        rows = setBlocked(rows, [{ row: 1, col: 2 }], true);
+        rows = setBlank(rows, [{ row: 2, col: 3 }], true);
+
+        const { data, problems, changed } = deserializeTable(serializeTable(rows));
+        expect(problems).toEqual([]);
+        expect(changed).toBe(false);
+        expect(data?.rows).toBe(2);
+        expect(data?.columns).toBe(3);
+        expect(data?.tableRows).toEqual(rows);
+    });
+
+    it("keeps renamed header labels", () => {
+        const json = serializeTable(createTable(2, 2), undefined, { rows: ["", "Back"], columns: ["Left", ""] });
+        expect(deserializeTable(json).data?.headerLabels).toEqual({ rows: ["", "Back"], columns: ["Left"] });
+    });
+
+    it("fails on invalid JSON", () => {
+        const { data, problems } = deserializeTable("{not json");
+        expect(data).toBeNull();
+        expect(problems[0].severity).toBe("error");
+    });
+});
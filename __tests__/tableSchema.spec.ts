@@ -0,0 +1,74 @@
+import { CURRENT_SCHEMA_VERSION, parseTableData } from "../tableSchema";
+
+const cell = (sequenceNumber: string, extra: Record<string, unknown> = {}): Record<string, unknown> => ({
+    sequenceNumber,
+    isBlocked: false,
+    isMerged: false,
+    mergeId: "",
+    ...extra
+});
+
+describe("parseTableData", () => {
+    it("migrates version 1 data and asks for it to be written back", () => {
+        const json = JSON.stringify({
+            rows: 1,
+            columns: 2,
+            tableRows: [{ cells: [cell("1"), cell("2")] }],
+            mergeSpans: { stale: { rowSpan: 1, colSpan: 2, anchorRow: 1, anchorCol: 1 } }
+        });
+        const { data, problems, changed, readOnly } = parseTableData(json, 10, 10);
+        expect(problems).toEqual([]);
+        expect(changed).toBe(true);
+        expect(readOnly).toBe(false);
+        expect(data?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(data).not.toHaveProperty("mergeSpans");
+    });
+
+    it("pads short rows and reports the repair", () => {
+        const json = JSON.stringify({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            rows: 2,
+            columns: 2,
+            tableRows: [{ cells: [cell("1"), cell("2")] }, { cells: [cell("3")] }]
+        });
+        const { data, problems, changed } = parseTableData(json, 10, 10);
+        expect(changed).toBe(true);
+        expect(problems.map(p => p.severity)).toEqual(["warning"]);
+        expect(data?.tableRows[1].cells[1].sequenceNumber).toBe("-");
+    });
+
+    it("splits a merge group that is not rectangular", () => {
+        const json = JSON.stringify({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            rows: 2,
+            columns: 2,
+            tableRows: [
+                { cells: [cell("1", { isMerged: true, mergeId: "m" }), cell("2", { isMerged: true, mergeId: "m" })] },
+                { cells: [cell("1", { isMerged: true, mergeId: "m" }), cell("4")] }
+            ]
+        });
+        const { data, changed } = parseTableData(json, 10, 10);
+        expect(changed).toBe(true);
+        expect(data?.tableRows.flatMap(row => row.cells).some(c => c.isMerged)).toBe(false);
+    });
+
+    it("loads data from a newer version read-only", () => {
+        const json = JSON.stringify({
+            schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+            rows: 1,
+            columns: 1,
+            tableRows: [{ cells: [cell("1")] }]
+        });
+        const { data, changed, readOnly } = parseTableData(json, 10, 10);
+        expect(data?.tableRows[0].cells[0].sequenceNumber).toBe("1");
+        expect(readOnly).toBe(true);
+        expect(changed).toBe(false);
+    });
+
+    it("fails on data that exceeds the maximum size", () => {
+        const json = JSON.stringify({ rows: 1, columns: 3, tableRows: [{ cells: [cell("1"), cell("2"), cell("3")] }] });
+        const { data, problems } = parseTableData(json, 10, 2);
+        expect(data).toBeNull();
+        expect(problems[problems.length - 1].severity).toBe("error");
+    });
+});
@@ -0,0 +1,84 @@
+import { CellPosition } from "./tableModel";
+
+// ── Auto-numbering: traversal orders and label templates ─────────────────────
+// Every order is generated from the top-left corner and then mirrored, so a
+// serpentine from the bottom-right is the top-left serpentine turned around.
+
+export type AutoNumberOrder = "rowMajor" | "columnMajor" | "serpentineRows" | "serpentineColumns" | "spiral";
+
+export type AutoNumberCorner = "topLeft" | "topRight" | "bottomLeft" | "bottomRight";
+
+export interface AutoNumberOptions {
+    order: AutoNumberOrder;
+    corner: AutoNumberCorner;
+    start: number;
+    step: number;
+    // e.g. "{prefix}{n:02}"; {n} is the counter, {n:0W} pads it to W digits
+    template: string;
+    prefix: string;
+    includeBlocked: boolean;
+    includeBlank: boolean;
+}
+
+export const DEFAULT_LABEL_TEMPLATE = "{n}";
+
+const spiralFromTopLeft = (rows: number, columns: number): CellPosition[] => {
+    const result: CellPosition[] = [];
+    let top = 1;
+    let bottom = rows;
+    let left = 1;
+    let right = columns;
+    while (top <= bottom && left <= right) {
+        for (let c = left; c <= right; c++) result.push({ row: top, col: c });
+        for (let r = top + 1; r <= bottom; r++) result.push({ row: r, col: right });
+        if (top < bottom) for (let c = right - 1; c >= left; c--) result.push({ row: bottom, col: c });
+        if (left < right) for (let r = bottom - 1; r > top; r--) result.push({ row: r, col: left });
+        top++;
+        bottom--;
+        left++;
+        right--;
+    }
+    return result;
+};
+
+const orderFromTopLeft = (rows: number, columns: number, order: AutoNumberOrder): CellPosition[] => {
+    if (order === "spiral") return spiralFromTopLeft(rows, columns);
+    const result: CellPosition[] = [];
+    if (order === "rowMajor" || order === "serpentineRows") {
+        for (let r = 1; r <= rows; r++) {
+            const reverse = order === "serpentineRows" && r % 2 === 0;
+            for (let i = 1; i <= columns; i++) result.push({ row: r, col: reverse ? columns + 1 - i : i });
+        }
+    } else {
+        for (let c = 1; c <= columns; c++) {
+            const reverse = order === "serpentineColumns" && c % 2 === 0;
+            for (let i = 1; i <= rows; i++) result.push({ row: reverse ? rows + 1 - i : i, col: c });
+        }
+    }
+    return result;
+};
+
+export const getTraversalOrder = (
+    rows: number,
+    columns: number,
+    order: AutoNumberOrder,
+    corner: AutoNumberCorner
+): CellPosition[] => {
+    const flipRows = corner === "bottomLeft" || corner === "bottomRight";
+    const flipColumns = corner === "topRight" || corner === "bottomRight";
+    return orderFromTopLeft(rows, columns, order).map(({ row, col }) => ({
+        row: flipRows ? rows + 1 - row : row,
+        col: flipColumns ? columns + 1 - col : col
+    }));
+};
+
+// Unknown placeholders are left in the label as typed
+export const formatLabel = (template: string, n: number, prefix: string): string =>
+    (template.trim() === "" ? DEFAULT_LABEL_TEMPLATE : template).replace(
+        /\{(prefix|n)(?::0?(\d+))?\}/g,
+        (_match, name: string, width: string | undefined) => {
+            if (name === "prefix") return prefix;
+            const digits = String(Math.abs(n)).padStart(width ? parseInt(width, 10) : 0, "0");
+            return `${n < 0 ? "-" : ""}${digits}`;
+        }
+    );
@@ -0,0 +1,86 @@
+import { CellMetadata, CellObject } from "./tableTypes";
+
+// ── Per-cell metadata ─────────────────────────────────────────────────────────
+// Free-form fields attached to a cavity, e.g. an insert part number or the
+// last service date. Which fields exist is configured on the widget; the
+// cells store whatever values they have under the field key. Numbers are kept
+// as JSON numbers, dates as YYYY-MM-DD and everything else as strings.
+
+export type CellFieldType = "text" | "number" | "date" | "enum";
+
+export interface CellField {
+    key: string;
+    caption: string;
+    type: CellFieldType;
+    // Allowed values of an enum field
+    options: string[];
+}
+
+// Reserved key of the built-in notes field
+export const NOTES_KEY = "notes";
+
+const isDate = (value: string): boolean =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+// Keeps string and finite number entries; anything else is dropped
+export const normaliseMetadata = (raw: unknown): CellMetadata | undefined => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+    const metadata: CellMetadata = {};
+    Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+        if (typeof value === "string" && value !== "") metadata[key] = value;
+        else if (typeof value === "number" && isFinite(value)) metadata[key] = value;
+    });
+    return Object.keys(metadata).length > 0 ? metadata : undefined;
+};
+
+export const parseMetadataJson = (json: string): CellMetadata | undefined => {
+    if (json.trim() === "") return undefined;
+    try {
+        return normaliseMetadata(JSON.parse(json));
+    } catch {
+        return undefined;
+    }
+};
+
+export const serializeMetadata = (metadata: CellMetadata | undefined): string =>
+    metadata && Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : "";
+
+// Input text to a stored value; null clears the field
+export const parseFieldInput = (field: CellField, input: string): string | number | null => {
+    if (input.trim() === "") return null;
+    switch (field.type) {
+        case "number": {
+            const value = Number(input);
+            return isFinite(value) ? value : null;
+        }
+        case "date":
+            return isDate(input) ? input : null;
+        case "enum":
+            return field.options.includes(input) ? input : null;
+        default:
+            return input;
+    }
+};
+
+// Stored value back to the text an input shows
+export const fieldInputValue = (value: string | number | undefined): string =>
+    value === undefined ? "" : String(value);
+
+export const mergeMetadataValue = (
+    metadata: CellMetadata | undefined,
+    key: string,
+    value: string | number | null
+): CellMetadata | undefined => {
+    const next: CellMetadata = { ...metadata };
+    if (value === null) delete next[key];
+    else next[key] = value;
+    return Object.keys(next).length > 0 ? next : undefined;
+};
+
+export const getCellNotes = (cell: CellObject): string => {
+    const notes = cell.metadata?.[NOTES_KEY];
+    return typeof notes === "string" ? notes : "";
+};
+
+export const isSameMetadata = (a: CellMetadata | undefined, b: CellMetadata | undefined): boolean =>
+    serializeMetadata(a) === serializeMetadata(b);
@@ -0,0 +1,180 @@
+import { ListAttributeValue, ListValue, ObjectItem } from "mendix";
+import Big from "big.js";
+import { CellMetadata, TableRow } from "./tableTypes";
+import { CURRENT_SCHEMA_VERSION, ParseResult, SchemaProblem, normaliseTableData } from "./tableSchema";
+import { parseMetadataJson, serializeMetadata } from "./cellMetadata";
+
+// ── Cell objects storage mode ─────────────────────────────────────────────────
+// Each Mendix object is a slot at a fixed row/column. Loading builds TableData
+// from the slots and runs it through the same repair as stored JSON; saving
+// writes every cell's state into the object at its position. Structural edits
+// therefore only move values between slots — creating and deleting slots is
+// left to the "On cells out of sync" action.
+
+export interface CellBinding {
+    datasource: ListValue;
+    row: ListAttributeValue<Big>;
+    column: ListAttributeValue<Big>;
+    number: ListAttributeValue<string>;
+    blocked: ListAttributeValue<boolean>;
+    blank?: ListAttributeValue<boolean>;
+    mergeGroup?: ListAttributeValue<string>;
+    state?: ListAttributeValue<string>;
+    // JSON object with the cell's metadata fields
+    metadata?: ListAttributeValue<string>;
+}
+
+export interface CellRecord {
+    row: number;
+    column: number;
+    number: string;
+    isBlocked: boolean;
+    isBlank: boolean;
+    mergeGroup: string;
+    state: string;
+    metadata?: CellMetadata;
+}
+
+export interface CellWriteResult {
+    // grid positions without an object
+    missing: number;
+    // objects outside the grid (or a second object at the same position)
+    extra: number;
+}
+
+const positionKey = (row: number, column: number): string => `${row}_${column}`;
+
+// null while the data source is still loading
+export const readCellRecords = (binding: CellBinding): CellRecord[] | null => {
+    if (binding.datasource.status !== "available" || !binding.datasource.items) return null;
+    return binding.datasource.items.map(item => ({
+        row: Number(binding.row.get(item).value ?? 0),
+        column: Number(binding.column.get(item).value ?? 0),
+        number: binding.number.get(item).value ?? "",
+        isBlocked: binding.blocked.get(item).value === true,
+        isBlank: binding.blank?.get(item).value === true,
+        mergeGroup: binding.mergeGroup?.get(item).value ?? "",
+        state: binding.state?.get(item).value ?? "",
+        metadata: parseMetadataJson(binding.metadata?.get(item).value ?? "")
+    }));
+};
+
+// With a known size (the Row/Column count attributes) objects outside it are
+// ignored: they are left over from a shrink and wait for the sync action.
+// Without one the table grows to the furthest object.
+export const recordsToTableData = (
+    records: CellRecord[],
+    size: { rows: number; columns: number } | null,
+    maxRows: number,
+    maxColumns: number
+): ParseResult => {
+    const problems: SchemaProblem[] = [];
+    const valid = records.filter(
+        r => Number.isInteger(r.row) && Number.isInteger(r.column) && r.row >= 1 && r.column >= 1
+    );
+    if (valid.length < records.length) {
+        problems.push({
+            severity: "warning",
+            message: `${records.length - valid.length} cell object(s) have no valid row/column and were ignored`
+        });
+    }
+
+    const byPosition = new Map<string, CellRecord>();
+    let duplicates = 0;
+    valid.forEach(record => {
+        const key = positionKey(record.row, record.column);
+        if (byPosition.has(key)) duplicates++;
+        else byPosition.set(key, record);
+    });
+    if (duplicates > 0) {
+        problems.push({
+            severity: "warning",
+            message: `${duplicates} cell object(s) share a position with another object; only the first is used`
+        });
+    }
+
+    const rows = size ? size.rows : Math.max(0, ...valid.map(r => r.row));
+    const columns = size ? size.columns : Math.max(0, ...valid.map(r => r.column));
+    const tableRows = Array.from({ length: rows }, (_, rIdx) => ({
+        cells: Array.from({ length: columns }, (_, cIdx) => {
+            const record = byPosition.get(positionKey(rIdx + 1, cIdx + 1));
+            return record
+                ? {
+                      sequenceNumber: record.number.trim() === "" ? "-" : record.number,
+                      isBlocked: record.isBlocked,
+                      isBlank: record.isBlank,
+                      isMerged: record.mergeGroup !== "",
+                      mergeId: record.mergeGroup,
+                      state: record.state,
+                      metadata: record.metadata
+                  }
+                : null;
+        })
+    }));
+
+    const result = normaliseTableData(
+        { schemaVersion: CURRENT_SCHEMA_VERSION, rows, columns, tableRows },
+        maxRows,
+        maxColumns
+    );
+    // Missing or left-over objects are only created or removed by writing the table back
+    const matched = tableRows.reduce((count, row) => count + row.cells.filter(cell => cell !== null).length, 0);
+    const changed = result.changed || matched !== rows * columns || matched !== records.length;
+    return { ...result, problems: [...problems, ...result.problems], changed };
+};
+
+// What the bound attributes hold for a table, without positions or timestamps:
+// objects read back after a write give the same key as the rows written
+export const getCellRecordsKey = (binding: CellBinding, tableRows: TableRow[]): string =>
+    JSON.stringify(
+        tableRows.map(row =>
+            row.cells.map(cell => [
+                cell.sequenceNumber,
+                cell.isBlocked,
+                binding.blank ? cell.isBlank : false,
+                binding.mergeGroup && cell.isMerged ? cell.mergeId : "",
+                binding.state ? cell.state : "",
+                binding.metadata ? serializeMetadata(cell.metadata) : ""
+            ])
+        )
+    );
+
+// The "mendix" typings do not export their AttributeValue union, so the
+// constraint lists the attribute types the cell binding writes
+const writeIfChanged = <T extends string | boolean>(
+    attribute: ListAttributeValue<T> | undefined,
+    item: ObjectItem,
+    value: T
+): void => {
+    if (!attribute) return;
+    const editable = attribute.get(item);
+    if (editable.status !== "available" || editable.readOnly || editable.value === value) return;
+    editable.setValue(value);
+};
+
+export const writeCellRecords = (binding: CellBinding, tableRows: TableRow[]): CellWriteResult => {
+    const items = binding.datasource.items ?? [];
+    const covered = new Set<string>();
+    let extra = 0;
+
+    items.forEach(item => {
+        const row = Number(binding.row.get(item).value ?? 0);
+        const column = Number(binding.column.get(item).value ?? 0);
+        const key = positionKey(row, column);
+        const cell = tableRows[row - 1]?.cells[column - 1];
+        if (!cell || covered.has(key)) {
+            extra++;
+            return;
+        }
+        covered.add(key);
+        writeIfChanged(binding.number, item, cell.sequenceNumber === "-" ? "" : cell.sequenceNumber);
+        writeIfChanged(binding.blocked, item, cell.isBlocked);
+        writeIfChanged(binding.blank, item, cell.isBlank);
+        writeIfChanged(binding.mergeGroup, item, cell.isMerged ? cell.mergeId : "");
+        writeIfChanged(binding.state, item, cell.state);
+        writeIfChanged(binding.metadata, item, serializeMetadata(cell.metadata));
+    });
+
+    const cellCount = tableRows.reduce((sum, row) => sum + row.cells.length, 0);
+    return { missing: cellCount - covered.size, extra };
+};
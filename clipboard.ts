@@ -0,0 +1,82 @@
+// ── Spreadsheet clipboard formats (TSV + HTML table) ──────────────────────────
+
+export interface ClipboardCell {
+    value: string;
+    rowSpan: number;
+    colSpan: number;
+}
+
+// A null entry is a position covered by a merged cell above/left of it.
+export type ClipboardGrid = Array<Array<ClipboardCell | null>>;
+
+const escapeTsvField = (value: string): string => (/[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export const gridToTsv = (grid: ClipboardGrid): string =>
+    grid.map(row => row.map(cell => escapeTsvField(cell?.value ?? "")).join("\t")).join("\r\n");
+
+export const gridToHtml = (grid: ClipboardGrid): string => {
+    const body = grid
+        .map(row => {
+            const cells = row
+                .filter((cell): cell is ClipboardCell => cell !== null)
+                .map(cell => {
+                    const rowSpan = cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : "";
+                    const colSpan = cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : "";
+                    return `<td${rowSpan}${colSpan}>${escapeHtml(cell.value)}</td>`;
+                })
+                .join("");
+            return `<tr>${cells}</tr>`;
+        })
+        .join("");
+    return `<table><tbody>${body}</tbody></table>`;
+};
+
+// Parses tab-separated text as written by Excel/Sheets, including quoted fields
+// that contain tabs or line breaks. A single trailing line break is ignored.
+export const parseTsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 2;
+                continue;
+            }
+            if (ch === '"') inQuotes = false;
+            else field += ch;
+            i++;
+            continue;
+        }
+        if (ch === '"' && field === "") {
+            inQuotes = true;
+        } else if (ch === "\t") {
+            row.push(field);
+            field = "";
+        } else if (ch === "\r" || ch === "\n") {
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+            if (ch === "\r" && text[i + 1] === "\n") i++;
+        } else {
+            field += ch;
+        }
+        i++;
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+export const isMultiCellText = (text: string): boolean => /[\t\n\r]/.test(text.replace(/[\r\n]+$/, ""));
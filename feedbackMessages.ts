@@ -0,0 +1,69 @@
+import { DynamicValue } from "mendix";
+
+// ── Feedback messages ─────────────────────────────────────────────────────────
+// Texts the widget shows when an action can't be carried out, and the questions
+// it asks before replacing the table or a template. Each one can be
+// replaced, and translated, with a text template on the widget; {name}
+// placeholders are filled in when the message is shown.
+
+export type FeedbackSeverity = "warning" | "error";
+
+export type MessageKey =
+    | "invalidNumbers"
+    | "nonPositiveSize"
+    | "sizeLimit"
+    | "maxRows"
+    | "maxColumns"
+    | "minRows"
+    | "minColumns"
+    | "mergeNotRectangular"
+    | "exportFailed"
+    | "printFailed"
+    | "diagramSaveFailed"
+    | "importEmpty"
+    | "importFailed"
+    | "templateInvalid"
+    | "templateNotSaved"
+    | "confirmImport"
+    | "confirmApplyTemplate"
+    | "confirmOverwriteTemplate"
+    | "confirmGrowPaste";
+
+export const DEFAULT_MESSAGES: Record<MessageKey, string> = {
+    invalidNumbers: "Please enter valid numbers",
+    nonPositiveSize: "Rows and columns must be positive numbers",
+    sizeLimit: "Maximum {rows} rows and {columns} columns",
+    maxRows: "Maximum {rows} rows",
+    maxColumns: "Maximum {columns} columns",
+    minRows: "A table needs at least one row",
+    minColumns: "A table needs at least one column",
+    mergeNotRectangular: "Please select a rectangular area to merge",
+    exportFailed: "Could not create the {format} file: {reason}",
+    printFailed: "Could not print the diagram: {reason}",
+    diagramSaveFailed: "Could not save the diagram: {reason}",
+    importEmpty: "The file does not contain any cells",
+    importFailed: 'Could not import "{file}": {reason}',
+    templateInvalid: 'Could not apply template "{name}": {reason}',
+    templateNotSaved: "Templates cannot be saved: the templates attribute is not editable",
+    confirmImport: 'Replace the current table with the {rows} × {columns} layout from "{file}"?',
+    confirmApplyTemplate: 'Replace the current table with the {rows} × {columns} template "{name}"?',
+    confirmOverwriteTemplate: 'Overwrite the template "{name}"?',
+    confirmGrowPaste:
+        "The pasted block needs {rows} rows × {columns} columns, but the table has {tableRows} × {tableColumns}. Grow the table to fit?"
+};
+
+export type MessageTemplates = Partial<Record<MessageKey, DynamicValue<string> | undefined>>;
+
+// Filled into {reason}
+export const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// An empty or loading template falls back to the built-in text
+export const formatMessage = (
+    templates: MessageTemplates,
+    key: MessageKey,
+    params: Record<string, string | number> = {}
+): string => {
+    const custom = templates[key];
+    const template = custom?.status === "available" && custom.value ? custom.value : DEFAULT_MESSAGES[key];
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
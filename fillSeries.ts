@@ -0,0 +1,48 @@
+// ── Autofill series values ───────────────────────────────────────────────────
+// A series value is a number with an optional text prefix/suffix, such as "12",
+// "C01" or "K-12". The last run of digits is the counter; a leading zero fixes
+// the width so "C09" continues as "C10", "C11".
+
+export interface SeriesValue {
+    prefix: string;
+    number: number;
+    suffix: string;
+    // Minimum digit count, 0 when the value is not zero-padded
+    width: number;
+}
+
+export const parseSeriesValue = (text: string): SeriesValue | null => {
+    const trimmed = text.trim();
+    if (trimmed === "" || trimmed === "-") return null;
+
+    // A bare signed integer keeps its sign as part of the number
+    const plain = /^(-?)(\d+)$/.exec(trimmed);
+    const match = plain ? null : /^(.*?)(\d+)(\D*)$/.exec(trimmed);
+    const digits = plain ? plain[2] : match?.[2];
+    if (digits === undefined) return null;
+
+    const magnitude = parseInt(digits, 10);
+    return {
+        prefix: match ? match[1] : "",
+        number: plain?.[1] === "-" ? -magnitude : magnitude,
+        suffix: match ? match[3] : "",
+        width: digits.length > 1 && digits.startsWith("0") ? digits.length : 0
+    };
+};
+
+// Values in one series share prefix and suffix; padding is taken from any padded member
+export const getSeriesTemplate = (values: SeriesValue[]): SeriesValue | null => {
+    if (values.length === 0) return null;
+    const [first] = values;
+    if (values.some(v => v.prefix !== first.prefix || v.suffix !== first.suffix)) return null;
+    return { ...first, width: Math.max(...values.map(v => v.width)) };
+};
+
+// Returns null when the number cannot be written in the template's form
+// (a negative counter behind a prefix or padding would read as "C-1" or "-01")
+export const formatSeriesValue = (template: SeriesValue, value: number): string | null => {
+    const affixed = template.prefix !== "" || template.suffix !== "" || template.width > 0;
+    if (value < 0 && affixed) return null;
+    const digits = String(Math.abs(value)).padStart(template.width, "0");
+    return `${template.prefix}${value < 0 ? "-" : ""}${digits}${template.suffix}`;
+};
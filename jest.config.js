@@ -0,0 +1,8 @@
+const base = require("@mendix/pluggable-widgets-tools/test-config/jest.config.js");
+
+// The widget sources sit at the repository root rather than in src/
+module.exports = {
+    ...base,
+    rootDir: __dirname,
+    testMatch: ["<rootDir>/__tests__/**/*.spec.{js,jsx,ts,tsx}"]
+};
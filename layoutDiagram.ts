@@ -0,0 +1,169 @@
+import { Layout, LayoutColors, LayoutRange } from "./layoutFile";
+
+// ── Cavity layout diagram (SVG, PNG, print) ──────────────────────────────────
+// Draws the same exchange Layout as the spreadsheet export, so merges and cell
+// states come out identical in every format.
+
+export interface DiagramOptions {
+    colors: LayoutColors;
+    title?: string;
+    rowLabels?: string[];
+    columnLabels?: string[];
+    // [label, value] pairs printed under the legend
+    statistics?: Array<[string, string]>;
+}
+
+const CELL = 48;
+const MARGIN = 20;
+const HEADER = 22;
+const TITLE = 28;
+const LEGEND_ROW = 22;
+const FONT = "-apple-system, 'Segoe UI', Roboto, sans-serif";
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Only #rgb/#rrggbb/rgb()/named colours reach the SVG; anything else falls back
+const safeColor = (color: string, fallback: string): string =>
+    /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\)|[a-z]+)$/i.test(color.trim()) ? color.trim() : fallback;
+
+const text = (x: number, y: number, content: string, attrs = ""): string =>
+    `<text x="${x}" y="${y}" ${attrs}>${escapeXml(content)}</text>`;
+
+export const layoutToSvg = (layout: Layout, options: DiagramOptions): string => {
+    const border = safeColor(options.colors.borderColor, "#dee2e6");
+    const merged = safeColor(options.colors.mergedCellColor, "#e3f2fd");
+    const blank = safeColor(options.colors.blankCellColor, "#2c2c2c");
+    const blocked = safeColor(options.colors.blockedBorderColor, "#fdd835");
+    const rowLabels = options.rowLabels ?? Array.from({ length: layout.rows }, (_, i) => String(i + 1));
+    const columnLabels = options.columnLabels ?? Array.from({ length: layout.columns }, (_, i) => String(i + 1));
+    const statistics = options.statistics ?? [];
+
+    const rowHeaderWidth = Math.max(HEADER, ...rowLabels.map(label => label.length * 7 + 10));
+    const top = MARGIN + (options.title ? TITLE : 0);
+    const gridX = MARGIN + rowHeaderWidth;
+    const gridY = top + HEADER;
+    const gridWidth = layout.columns * CELL;
+    const gridHeight = layout.rows * CELL;
+    const legendY = gridY + gridHeight + 24;
+    const statsY = legendY + LEGEND_ROW + 12;
+    const width = Math.max(gridX + gridWidth, MARGIN + 440) + MARGIN;
+    const height = statsY + statistics.length * 18 + MARGIN;
+
+    const parts: string[] = [];
+    if (options.title) parts.push(text(MARGIN, MARGIN + 16, options.title, 'font-size="16" font-weight="600"'));
+
+    columnLabels.forEach((label, i) =>
+        parts.push(
+            text(gridX + i * CELL + CELL / 2, gridY - 7, label, 'font-size="11" fill="#6c757d" text-anchor="middle"')
+        )
+    );
+    rowLabels.forEach((label, i) =>
+        parts.push(
+            text(gridX - 8, gridY + i * CELL + CELL / 2 + 4, label, 'font-size="11" fill="#6c757d" text-anchor="end"')
+        )
+    );
+
+    const mergeAt = (row: number, column: number): LayoutRange | undefined =>
+        layout.merges.find(m => row >= m.top && row <= m.bottom && column >= m.left && column <= m.right);
+
+    layout.cells.forEach(cell => {
+        const merge = mergeAt(cell.row, cell.column);
+        if (merge && (merge.top !== cell.row || merge.left !== cell.column)) return;
+        const x = gridX + (cell.column - 1) * CELL;
+        const y = gridY + (cell.row - 1) * CELL;
+        const w = merge ? (merge.right - merge.left + 1) * CELL : CELL;
+        const h = merge ? (merge.bottom - merge.top + 1) * CELL : CELL;
+        const fill = cell.isBlank ? blank : merge ? merged : "#ffffff";
+        parts.push(
+            `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${fill}" stroke="${border}" stroke-width="1"/>`
+        );
+        if (cell.isBlank) return;
+        if (cell.isBlocked) {
+            // Inset border plus a cross so blocked cavities read without colour too
+            parts.push(
+                `<rect x="${x + 2}" y="${y + 2}" width="${w - 4}" height="${
+                    h - 4
+                }" fill="none" stroke="${blocked}" stroke-width="3"/>`
+            );
+            parts.push(
+                `<path d="M${x + 6} ${y + 6}L${x + 14} ${y + 14}M${x + 14} ${y + 6}L${x + 6} ${
+                    y + 14
+                }" stroke="#b59b00" stroke-width="1.5"/>`
+            );
+        }
+        if (cell.value !== "") {
+            const color = cell.isBlocked ? "#868e96" : "#212529";
+            parts.push(
+                text(x + w / 2, y + h / 2 + 5, cell.value, `font-size="14" fill="${color}" text-anchor="middle"`)
+            );
+        }
+    });
+
+    const legend: Array<[string, string, string]> = [
+        ["Cavity", "#ffffff", border],
+        ["Blocked", "#ffffff", blocked],
+        ["Merged", merged, border],
+        ["Blank", blank, border]
+    ];
+    legend.forEach(([label, fill, stroke], i) => {
+        const x = MARGIN + i * 110;
+        const strokeWidth = label === "Blocked" ? 3 : 1;
+        parts.push(
+            `<rect x="${x}" y="${legendY}" width="16" height="16" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}"/>`
+        );
+        parts.push(text(x + 22, legendY + 13, label, 'font-size="12" fill="#495057"'));
+    });
+
+    statistics.forEach(([label, value], i) =>
+        parts.push(text(MARGIN, statsY + i * 18 + 12, `${label}: ${value}`, 'font-size="12" fill="#495057"'))
+    );
+
+    return (
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(
+            FONT
+        )}">` + `<rect width="100%" height="100%" fill="#ffffff"/>${parts.join("")}</svg>`
+    );
+};
+
+// ── Browser helpers ──────────────────────────────────────────────────────────
+export const svgToPng = (svg: string, scale = 2): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            const canvas = document.createElement("canvas");
+            canvas.width = image.width * scale;
+            canvas.height = image.height * scale;
+            const context = canvas.getContext("2d");
+            if (!context) {
+                reject(new Error("Canvas is not available"));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0);
+            canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG"))), "image/png");
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Could not render the SVG"));
+        };
+        image.src = url;
+    });
+
+// Prints the diagram on its own page instead of the whole Mendix page
+export const printSvg = (svg: string, title: string): void => {
+    const printWindow = window.open("", "_blank", "width=900,height=700");
+    if (!printWindow) throw new Error("The print window was blocked; allow pop-ups for this site");
+    printWindow.document.write(
+        `<!DOCTYPE html><html><head><title>${escapeXml(title)}</title>` +
+            "<style>@page { size: landscape; margin: 10mm; } body { margin: 0; } svg { width: 100%; height: auto; }</style>" +
+            `</head><body>${svg}</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    // Some browsers return from print() while the dialog is still open; closing then would cancel it
+    printWindow.addEventListener("afterprint", () => printWindow.close());
+    printWindow.print();
+};
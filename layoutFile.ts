@@ -0,0 +1,336 @@
+import { Workbook, Worksheet } from "exceljs";
+
+// ── Spreadsheet exchange format for cavity layouts ───────────────────────────
+// XLSX files carry two sheets: "Layout" is the visual grid with real merges and
+// cell styles, "Cells" lists every position with its state so an import is
+// lossless. CSV export writes the "Cells" list; import also takes a plain grid. Header
+// labels, when given, head the "Layout" sheet and are listed per cell.
+
+export interface LayoutCell {
+    row: number;
+    column: number;
+    value: string;
+    isBlocked: boolean;
+    isBlank: boolean;
+}
+
+export interface LayoutRange {
+    top: number;
+    left: number;
+    bottom: number;
+    right: number;
+}
+
+export interface Layout {
+    rows: number;
+    columns: number;
+    cells: LayoutCell[];
+    merges: LayoutRange[];
+    // Header labels as displayed, one per row/column
+    rowLabels?: string[];
+    columnLabels?: string[];
+}
+
+export interface LayoutColors {
+    mergedCellColor: string;
+    blankCellColor: string;
+    blockedBorderColor: string;
+    borderColor: string;
+}
+
+const LAYOUT_SHEET = "Layout";
+const CELLS_SHEET = "Cells";
+const CELLS_HEADER = ["Row", "Column", "Number", "Blocked", "Blank", "Merge", "Row label", "Column label"];
+
+// ── A1 notation ──────────────────────────────────────────────────────────────
+const columnLetters = (column: number): string => {
+    let letters = "";
+    let n = column;
+    while (n > 0) {
+        const rem = (n - 1) % 26;
+        letters = String.fromCharCode(65 + rem) + letters;
+        n = Math.floor((n - 1) / 26);
+    }
+    return letters;
+};
+
+const parseAddress = (address: string): { row: number; column: number } | null => {
+    const match = /^([A-Z]+)(\d+)$/i.exec(address.trim());
+    if (!match) return null;
+    const column = match[1]
+        .toUpperCase()
+        .split("")
+        .reduce((sum, ch) => sum * 26 + ch.charCodeAt(0) - 64, 0);
+    return { row: parseInt(match[2], 10), column };
+};
+
+const formatRange = (range: LayoutRange): string =>
+    `${columnLetters(range.left)}${range.top}:${columnLetters(range.right)}${range.bottom}`;
+
+const parseRange = (text: string): LayoutRange | null => {
+    const [from, to] = text.split(":");
+    const start = from ? parseAddress(from) : null;
+    const end = to ? parseAddress(to) : null;
+    if (!start || !end) return null;
+    return {
+        top: Math.min(start.row, end.row),
+        left: Math.min(start.column, end.column),
+        bottom: Math.max(start.row, end.row),
+        right: Math.max(start.column, end.column)
+    };
+};
+
+// ExcelJS wants ARGB; anything that isn't a #rgb/#rrggbb colour falls back
+const toArgb = (color: string, fallback: string): string => {
+    const hex = color.trim().replace(/^#/, "");
+    if (/^[0-9a-f]{6}$/i.test(hex)) return `FF${hex.toUpperCase()}`;
+    if (/^[0-9a-f]{3}$/i.test(hex))
+        return `FF${hex
+            .split("")
+            .map(ch => ch + ch)
+            .join("")
+            .toUpperCase()}`;
+    return fallback;
+};
+
+const parseFlag = (value: string): boolean => /^(true|yes|1|x)$/i.test(value.trim());
+
+const findMerge = (merges: LayoutRange[], row: number, column: number): LayoutRange | undefined =>
+    merges.find(m => row >= m.top && row <= m.bottom && column >= m.left && column <= m.right);
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+const escapeCsvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, "");
+    // Excel writes ";" instead of "," in locales that use a decimal comma
+    const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+    const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') inQuotes = false;
+            else field += ch;
+        } else if (ch === '"' && field === "") {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = "";
+        } else if (ch === "\r" || ch === "\n") {
+            if (ch === "\r" && source[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+// One line per cell under CELLS_HEADER, shared by the CSV and the XLSX "Cells" sheet
+const layoutToCellRecords = (layout: Layout): Array<Array<string | number>> =>
+    layout.cells.map(cell => {
+        const merge = findMerge(layout.merges, cell.row, cell.column);
+        return [
+            cell.row,
+            cell.column,
+            cell.value,
+            cell.isBlocked ? "Yes" : "No",
+            cell.isBlank ? "Yes" : "No",
+            merge ? formatRange(merge) : "",
+            layout.rowLabels?.[cell.row - 1] ?? "",
+            layout.columnLabels?.[cell.column - 1] ?? ""
+        ];
+    });
+
+// The "Cells" list, so blocked, blank and merged cells survive a round trip
+export const layoutToCsv = (layout: Layout): string =>
+    [CELLS_HEADER, ...layoutToCellRecords(layout)]
+        .map(fields => fields.map(field => escapeCsvField(String(field))).join(","))
+        .join("\r\n");
+
+const cellsListToLayout = (records: string[][]): Layout => {
+    const cells: LayoutCell[] = [];
+    const merges: LayoutRange[] = [];
+    const rowLabels: string[] = [];
+    const columnLabels: string[] = [];
+    records.forEach(([row, column, value, blocked, blank, merge, rowLabel, columnLabel]) => {
+        const r = parseInt(row, 10);
+        const c = parseInt(column, 10);
+        if (isNaN(r) || isNaN(c) || r < 1 || c < 1) return;
+        cells.push({
+            row: r,
+            column: c,
+            value: (value ?? "").trim(),
+            isBlocked: parseFlag(blocked ?? ""),
+            isBlank: parseFlag(blank ?? "")
+        });
+        const range = merge ? parseRange(merge) : null;
+        if (range && !merges.some(m => m.top === range.top && m.left === range.left)) merges.push(range);
+        if (rowLabel?.trim()) rowLabels[r - 1] = rowLabel.trim();
+        if (columnLabel?.trim()) columnLabels[c - 1] = columnLabel.trim();
+    });
+    const rows = Math.max(0, ...cells.map(c => c.row));
+    const columns = Math.max(0, ...cells.map(c => c.column));
+    const hasLabels = rowLabels.length > 0 || columnLabels.length > 0;
+    return {
+        rows,
+        columns,
+        cells,
+        merges,
+        rowLabels: hasLabels ? Array.from({ length: rows }, (_, i) => rowLabels[i] ?? "") : undefined,
+        columnLabels: hasLabels ? Array.from({ length: columns }, (_, i) => columnLabels[i] ?? "") : undefined
+    };
+};
+
+const isCellsHeader = (header: string[] | undefined): boolean =>
+    !!header &&
+    CELLS_HEADER.slice(0, 3).every((name, i) => (header[i] ?? "").trim().toLowerCase() === name.toLowerCase());
+
+export const csvToLayout = (text: string): Layout => {
+    const records = parseCsv(text).filter(line => line.some(field => field.trim() !== ""));
+    if (isCellsHeader(records[0])) return cellsListToLayout(records.slice(1));
+    const columns = Math.max(0, ...records.map(line => line.length));
+    const cells: LayoutCell[] = [];
+    records.forEach((line, rIdx) => {
+        for (let cIdx = 0; cIdx < columns; cIdx++) {
+            cells.push({
+                row: rIdx + 1,
+                column: cIdx + 1,
+                value: (line[cIdx] ?? "").trim(),
+                isBlocked: false,
+                isBlank: false
+            });
+        }
+    });
+    return { rows: records.length, columns, cells, merges: [] };
+};
+
+// ── XLSX ─────────────────────────────────────────────────────────────────────
+export const layoutToXlsx = async (layout: Layout, colors: LayoutColors): Promise<ArrayBuffer> => {
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet(LAYOUT_SHEET);
+    const border = { style: "thin" as const, color: { argb: toArgb(colors.borderColor, "FFDEE2E6") } };
+    const blockedBorder = { style: "medium" as const, color: { argb: toArgb(colors.blockedBorderColor, "FFFDD835") } };
+    // Header labels take the first row/column, moving the grid down and right
+    const rowOffset = layout.columnLabels ? 1 : 0;
+    const columnOffset = layout.rowLabels ? 1 : 0;
+
+    const writeHeader = (row: number, column: number, label: string): void => {
+        const target = sheet.getCell(row, column);
+        target.value = label;
+        target.font = { bold: true };
+        target.alignment = { horizontal: "center", vertical: "middle" };
+        target.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF1F3F5" } };
+    };
+    layout.columnLabels?.forEach((label, i) => writeHeader(1, columnOffset + i + 1, label));
+    layout.rowLabels?.forEach((label, i) => writeHeader(rowOffset + i + 1, 1, label));
+
+    layout.cells.forEach(cell => {
+        const target = sheet.getCell(rowOffset + cell.row, columnOffset + cell.column);
+        // Write plain integers as numbers, but keep zero-padded labels such as "01" as text
+        const numeric =
+            /^-?\d+$/.test(cell.value) && String(parseInt(cell.value, 10)) === cell.value
+                ? parseInt(cell.value, 10)
+                : null;
+        target.value = cell.isBlank || cell.value === "" ? null : numeric ?? cell.value;
+        target.alignment = { horizontal: "center", vertical: "middle" };
+        const edge = cell.isBlocked ? blockedBorder : border;
+        target.border = { top: edge, left: edge, bottom: edge, right: edge };
+        if (cell.isBlank) {
+            target.fill = {
+                type: "pattern",
+                pattern: "solid",
+                fgColor: { argb: toArgb(colors.blankCellColor, "FF2C2C2C") }
+            };
+        } else if (findMerge(layout.merges, cell.row, cell.column)) {
+            target.fill = {
+                type: "pattern",
+                pattern: "solid",
+                fgColor: { argb: toArgb(colors.mergedCellColor, "FFE3F2FD") }
+            };
+        }
+        if (cell.isBlocked) target.note = "Blocked";
+    });
+    layout.merges.forEach(m =>
+        sheet.mergeCells(rowOffset + m.top, columnOffset + m.left, rowOffset + m.bottom, columnOffset + m.right)
+    );
+    for (let c = 1; c <= columnOffset + layout.columns; c++) sheet.getColumn(c).width = 10;
+
+    const list = workbook.addWorksheet(CELLS_SHEET);
+    list.addRow(CELLS_HEADER);
+    list.getRow(1).font = { bold: true };
+    layoutToCellRecords(layout).forEach(record => list.addRow(record));
+
+    return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+const sheetToRecords = (sheet: Worksheet): string[][] => {
+    const records: string[][] = [];
+    sheet.eachRow(row => {
+        const fields: string[] = [];
+        for (let c = 1; c <= CELLS_HEADER.length; c++) fields.push(row.getCell(c).text ?? "");
+        records.push(fields);
+    });
+    return records;
+};
+
+export const xlsxToLayout = async (data: ArrayBuffer): Promise<Layout> => {
+    const workbook = new Workbook();
+    await workbook.xlsx.load(data);
+
+    const list = workbook.getWorksheet(CELLS_SHEET);
+    if (list) {
+        const records = sheetToRecords(list);
+        if (isCellsHeader(records[0])) return cellsListToLayout(records.slice(1));
+    }
+
+    // No state sheet: take values and merges from the first sheet
+    const sheet = workbook.getWorksheet(LAYOUT_SHEET) ?? workbook.worksheets[0];
+    if (!sheet) throw new Error("The workbook does not contain any sheets");
+    const rows = sheet.rowCount;
+    const columns = sheet.columnCount;
+    const merges = (sheet.model.merges ?? [])
+        .map(range => parseRange(range))
+        .filter((range): range is LayoutRange => range !== null);
+    const cells: LayoutCell[] = [];
+    for (let r = 1; r <= rows; r++) {
+        for (let c = 1; c <= columns; c++) {
+            const merge = findMerge(merges, r, c);
+            const source = merge ? sheet.getCell(merge.top, merge.left) : sheet.getCell(r, c);
+            cells.push({ row: r, column: c, value: (source.text ?? "").trim(), isBlocked: false, isBlank: false });
+        }
+    }
+    return { rows, columns, cells, merges };
+};
+
+// ── Browser helpers ──────────────────────────────────────────────────────────
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const readLayoutFile = async (file: File): Promise<Layout> => {
+    if (/\.xlsx$/i.test(file.name)) return xlsxToLayout(await file.arrayBuffer());
+    if (/\.(csv|txt)$/i.test(file.name)) return csvToLayout(await file.text());
+    throw new Error(`Unsupported file type: ${file.name}. Use a .csv or .xlsx file.`);
+};
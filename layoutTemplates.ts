@@ -0,0 +1,66 @@
+import { ListAttributeValue, ListValue } from "mendix";
+
+// ── Named layout templates ────────────────────────────────────────────────────
+// A template is a complete TableData JSON under a name. The library lives
+// either in one String attribute, as a JSON array of { name, data } with the
+// table data inlined, or in a list of objects with a name and a data attribute.
+// The widget only reads the object list; saving hands the template to an action
+// so the microflow decides where it goes.
+
+export interface LayoutTemplate {
+    name: string;
+    // TableData JSON, parsed and repaired like stored table data when applied
+    data: string;
+}
+
+export interface TemplateBinding {
+    datasource: ListValue;
+    name: ListAttributeValue<string>;
+    data: ListAttributeValue<string>;
+}
+
+const byName = (a: LayoutTemplate, b: LayoutTemplate): number => a.name.localeCompare(b.name);
+
+// Entries without a name or data are skipped; a later entry wins over an earlier one with the same name
+export const parseTemplateList = (json: string): LayoutTemplate[] => {
+    if (json.trim() === "") return [];
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(raw)) return [];
+    const templates = new Map<string, LayoutTemplate>();
+    raw.forEach(entry => {
+        const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+        const data = typeof entry?.data === "string" ? entry.data : entry?.data ? JSON.stringify(entry.data) : "";
+        if (name !== "" && data !== "") templates.set(name, { name, data });
+    });
+    return Array.from(templates.values()).sort(byName);
+};
+
+// Data that is not a JSON object stays the stored string, so one broken template can't block saving the others
+const inlineData = (data: string): unknown => {
+    try {
+        const parsed: unknown = JSON.parse(data);
+        return parsed && typeof parsed === "object" ? parsed : data;
+    } catch {
+        return data;
+    }
+};
+
+export const serializeTemplateList = (templates: LayoutTemplate[]): string =>
+    JSON.stringify(templates.map(template => ({ name: template.name, data: inlineData(template.data) })));
+
+export const upsertTemplate = (templates: LayoutTemplate[], template: LayoutTemplate): LayoutTemplate[] =>
+    [...templates.filter(existing => existing.name !== template.name), template].sort(byName);
+
+// null while the data source is still loading
+export const readTemplateItems = (binding: TemplateBinding): LayoutTemplate[] | null => {
+    if (binding.datasource.status !== "available" || !binding.datasource.items) return null;
+    return binding.datasource.items
+        .map(item => ({ name: (binding.name.get(item).value ?? "").trim(), data: binding.data.get(item).value ?? "" }))
+        .filter(template => template.name !== "" && template.data !== "")
+        .sort(byName);
+};
@@ -0,0 +1,75 @@
+import { MergeSpanInfo, TableRow } from "./tableTypes";
+import { CellPosition, getCellAt, parseCellId } from "./tableModel";
+import { formatCellLabel } from "./tableHeaders";
+
+// ── Selection as text ─────────────────────────────────────────────────────────
+// The selection is exchanged with the app as a comma-separated list of cells,
+// either by id ("cell_2_3") or by header label ("B3"). Reading accepts both, and
+// "from:to" ranges that select the rectangle between two cells.
+
+export type SelectionFormat = "ids" | "labels";
+
+const byPosition = (a: CellPosition, b: CellPosition): number => a.row - b.row || a.col - b.col;
+
+export const serializeSelection = (
+    cellIds: Iterable<string>,
+    format: SelectionFormat,
+    rowLabels: string[],
+    columnLabels: string[]
+): string =>
+    Array.from(cellIds)
+        .map(parseCellId)
+        .filter((p): p is CellPosition => p !== null)
+        .sort(byPosition)
+        .map(p =>
+            format === "labels"
+                ? formatCellLabel(rowLabels[p.row - 1] ?? String(p.row), columnLabels[p.col - 1] ?? String(p.col))
+                : `cell_${p.row}_${p.col}`
+        )
+        .join(",");
+
+// Labels are matched without regard to case; cells outside the table are skipped
+export const parseSelection = (text: string, rowLabels: string[], columnLabels: string[]): CellPosition[] => {
+    const byLabel = new Map<string, CellPosition>();
+    rowLabels.forEach((rowLabel, r) =>
+        columnLabels.forEach((columnLabel, c) =>
+            byLabel.set(formatCellLabel(rowLabel, columnLabel).toUpperCase(), { row: r + 1, col: c + 1 })
+        )
+    );
+    const resolve = (token: string): CellPosition | null =>
+        parseCellId(token) ?? byLabel.get(token.toUpperCase()) ?? null;
+
+    const positions: CellPosition[] = [];
+    text.split(/[,;\n]/).forEach(part => {
+        const [from, to] = part.split(":").map(token => token.trim());
+        if (!from) return;
+        const start = resolve(from);
+        const end = to ? resolve(to) : start;
+        if (!start || !end) return;
+        // Ids can name any position, so the range is cut to the table before it is expanded
+        const minRow = Math.max(1, Math.min(start.row, end.row));
+        const maxRow = Math.min(rowLabels.length, Math.max(start.row, end.row));
+        const minCol = Math.max(1, Math.min(start.col, end.col));
+        const maxCol = Math.min(columnLabels.length, Math.max(start.col, end.col));
+        for (let r = minRow; r <= maxRow; r++)
+            for (let c = minCol; c <= maxCol; c++) positions.push({ row: r, col: c });
+    });
+    return positions;
+};
+
+// Same shape the grid selects itself: cells outside the table are dropped and
+// hidden merge members are replaced by their merge anchor
+export const normaliseSelection = (
+    rows: TableRow[],
+    mergeSpans: Record<string, MergeSpanInfo>,
+    positions: CellPosition[]
+): Set<string> => {
+    const selection = new Set<string>();
+    positions.forEach(({ row, col }) => {
+        const cell = getCellAt(rows, row, col);
+        if (!cell) return;
+        const span = cell.isMerged ? mergeSpans[cell.mergeId] : undefined;
+        selection.add(span ? `cell_${span.anchorRow}_${span.anchorCol}` : cell.id);
+    });
+    return selection;
+};
@@ -0,0 +1,117 @@
+// ── Row and column header labels ─────────────────────────────────────────────
+// Headers are labelled automatically from a scheme; a label the user renamed
+// is stored as an override at its index, and "" means "use the scheme". The
+// overrides travel with rows and columns when they are inserted or deleted.
+
+export type HeaderScheme = "letters" | "numbers" | "roman";
+
+export interface HeaderLabels {
+    rows: string[];
+    columns: string[];
+}
+
+export const EMPTY_HEADER_LABELS: HeaderLabels = { rows: [], columns: [] };
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+    [1000, "M"],
+    [900, "CM"],
+    [500, "D"],
+    [400, "CD"],
+    [100, "C"],
+    [90, "XC"],
+    [50, "L"],
+    [40, "XL"],
+    [10, "X"],
+    [9, "IX"],
+    [5, "V"],
+    [4, "IV"],
+    [1, "I"]
+];
+
+const toLetters = (index: number): string => {
+    let letters = "";
+    let n = index;
+    while (n > 0) {
+        const rem = (n - 1) % 26;
+        letters = String.fromCharCode(65 + rem) + letters;
+        n = Math.floor((n - 1) / 26);
+    }
+    return letters;
+};
+
+const toRoman = (index: number): string => {
+    let rest = index;
+    return ROMAN_NUMERALS.reduce((result, [value, numeral]) => {
+        const count = Math.floor(rest / value);
+        rest -= count * value;
+        return result + numeral.repeat(count);
+    }, "");
+};
+
+// index is 1-based
+export const autoHeaderLabel = (index: number, scheme: HeaderScheme): string =>
+    scheme === "letters" ? toLetters(index) : scheme === "roman" ? toRoman(index) : String(index);
+
+export const resolveHeaderLabels = (overrides: string[], count: number, scheme: HeaderScheme): string[] =>
+    Array.from({ length: count }, (_, i) => overrides[i] || autoHeaderLabel(i + 1, scheme));
+
+// position is the 1-based index the new row/column will get
+export const insertHeaderLabel = (overrides: string[], position: number): string[] =>
+    overrides.length < position
+        ? overrides
+        : [...overrides.slice(0, position - 1), "", ...overrides.slice(position - 1)];
+
+export const deleteHeaderLabels = (overrides: string[], indexes: Set<number>): string[] =>
+    overrides.filter((_, i) => !indexes.has(i + 1));
+
+export const setHeaderLabel = (overrides: string[], index: number, label: string): string[] => {
+    const next = [...overrides];
+    while (next.length < index) next.push("");
+    next[index - 1] = label;
+    return next;
+};
+
+// Displayed labels (e.g. from an imported file) back to overrides: those that
+// match the scheme stay automatic
+export const toHeaderOverrides = (labels: string[], scheme: HeaderScheme): string[] =>
+    labels.map((label, i) => (label === autoHeaderLabel(i + 1, scheme) ? "" : label));
+
+// Trailing automatic entries carry no information, so they are not stored
+const compactLabels = (overrides: string[], count: number): string[] => {
+    const kept = overrides.slice(0, count);
+    while (kept.length > 0 && kept[kept.length - 1] === "") kept.pop();
+    return kept;
+};
+
+export const compactHeaderLabels = (labels: HeaderLabels, rows: number, columns: number): HeaderLabels | undefined => {
+    const compacted = { rows: compactLabels(labels.rows, rows), columns: compactLabels(labels.columns, columns) };
+    return compacted.rows.length === 0 && compacted.columns.length === 0 ? undefined : compacted;
+};
+
+const toLabelList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(label => (typeof label === "string" ? label.trim() : "")) : [];
+
+export const normaliseHeaderLabels = (raw: unknown): HeaderLabels => {
+    const data = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    return { rows: toLabelList(data.rows), columns: toLabelList(data.columns) };
+};
+
+// Stand-alone JSON, as kept in the header labels attribute in cell objects mode
+export const parseHeaderLabels = (json: string): HeaderLabels => {
+    if (json.trim() === "") return EMPTY_HEADER_LABELS;
+    try {
+        return normaliseHeaderLabels(JSON.parse(json));
+    } catch {
+        return EMPTY_HEADER_LABELS;
+    }
+};
+
+// Plate notation: a letter label and a number label run together ("B3");
+// anything else is separated so the two parts stay readable
+export const formatCellLabel = (rowLabel: string, columnLabel: string): string => {
+    const isLetters = (label: string): boolean => /^[A-Z]+$/i.test(label);
+    const isDigits = (label: string): boolean => /^\d+$/.test(label);
+    if (isLetters(rowLabel) && isDigits(columnLabel)) return `${rowLabel}${columnLabel}`;
+    if (isLetters(columnLabel) && isDigits(rowLabel)) return `${columnLabel}${rowLabel}`;
+    return `${rowLabel} / ${columnLabel}`;
+};
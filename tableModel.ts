@@ -0,0 +1,631 @@
+import { CellObject, MergeSpanInfo, TableData, TableRow } from "./tableTypes";
+import { CURRENT_SCHEMA_VERSION, ParseResult, parseTableData } from "./tableSchema";
+import { AutoNumberOptions, formatLabel, getTraversalOrder } from "./autoNumber";
+import { SeriesValue, formatSeriesValue, getSeriesTemplate, parseSeriesValue } from "./fillSeries";
+import { HeaderLabels, compactHeaderLabels } from "./tableHeaders";
+import { mergeMetadataValue } from "./cellMetadata";
+
+// ── Table model ───────────────────────────────────────────────────────────────
+// Pure grid rules shared by the widget (and usable from JavaScript actions).
+// Every operation takes rows and returns new rows without touching its input;
+// when nothing changes the input array itself is returned, so callers can use
+// reference equality to skip saves and history entries.
+//
+// Invariants kept by every operation:
+//   - rows/cells are 1-based, dense and addressed as `cell_${row}_${col}`
+//   - a merge group is a filled rectangle of cells sharing one mergeId
+//   - all cells of a merge group carry the top-left cell's value and flags
+
+export interface CellPosition {
+    row: number;
+    col: number;
+}
+
+export interface CellRange {
+    minRow: number;
+    maxRow: number;
+    minCol: number;
+    maxCol: number;
+}
+
+export interface TableStatistics {
+    totalCells: number;
+    blockedCells: number;
+    mergedCells: number;
+    blankCells: number;
+}
+
+type GroupPatch = Partial<Pick<CellObject, "sequenceNumber" | "isBlocked" | "isBlank" | "state" | "metadata">>;
+
+const cloneRows = (rows: TableRow[]): TableRow[] =>
+    rows.map(row => ({ ...row, cells: row.cells.map(cell => ({ ...cell })) }));
+
+// Dense 1-based rows make this an index lookup; it runs per cell on every render
+export const getCellAt = (rows: TableRow[], row: number, col: number): CellObject | undefined =>
+    rows[row - 1]?.cells[col - 1];
+
+export const parseCellId = (cellId: string): CellPosition | null => {
+    const match = /^cell_(\d+)_(\d+)$/.exec(cellId);
+    return match ? { row: parseInt(match[1], 10), col: parseInt(match[2], 10) } : null;
+};
+
+export const computeMergeSpans = (rows: TableRow[]): Record<string, MergeSpanInfo> => {
+    const groupedByMerge: Record<string, Array<{ row: number; col: number }>> = {};
+    rows.forEach(row => {
+        row.cells.forEach(cell => {
+            if (!cell.isMerged || !cell.mergeId) return;
+            if (!groupedByMerge[cell.mergeId]) groupedByMerge[cell.mergeId] = [];
+            groupedByMerge[cell.mergeId].push({ row: cell.rowIndex, col: cell.columnIndex });
+        });
+    });
+    const result: Record<string, MergeSpanInfo> = {};
+    Object.entries(groupedByMerge).forEach(([mergeId, positions]) => {
+        const rows2 = positions.map(p => p.row);
+        const cols = positions.map(p => p.col);
+        const minRow = Math.min(...rows2);
+        const maxRow = Math.max(...rows2);
+        const minCol = Math.min(...cols);
+        const maxCol = Math.max(...cols);
+        result[mergeId] = {
+            rowSpan: maxRow - minRow + 1,
+            colSpan: maxCol - minCol + 1,
+            anchorRow: minRow,
+            anchorCol: minCol
+        };
+    });
+    return result;
+};
+
+export const isCellHidden = (cell: CellObject, mergeSpans: Record<string, MergeSpanInfo>): boolean => {
+    if (!cell.isMerged || !cell.mergeId) return false;
+    const span = mergeSpans[cell.mergeId];
+    if (!span) return false;
+    return !(cell.rowIndex === span.anchorRow && cell.columnIndex === span.anchorCol);
+};
+
+export const getCellSpan = (
+    cell: CellObject,
+    mergeSpans: Record<string, MergeSpanInfo>
+): { rowSpan: number; colSpan: number } => {
+    if (!cell.isMerged || !cell.mergeId) return { rowSpan: 1, colSpan: 1 };
+    const span = mergeSpans[cell.mergeId];
+    if (!span) return { rowSpan: 1, colSpan: 1 };
+    if (cell.rowIndex === span.anchorRow && cell.columnIndex === span.anchorCol) {
+        return { rowSpan: span.rowSpan, colSpan: span.colSpan };
+    }
+    return { rowSpan: 1, colSpan: 1 };
+};
+
+// ── Helper: a cell is fillable if visible (not blank, not hidden non-anchor) ──
+export const isFillable = (cell: CellObject, mergeSpans: Record<string, MergeSpanInfo>): boolean => {
+    if (cell.isBlank) return false;
+    if (isCellHidden(cell, mergeSpans)) return false;
+    return true;
+};
+
+// ── Helper: next visible cell in a direction, stepping over merged spans ─────
+export const getNeighbourPosition = (
+    tableRows: TableRow[],
+    mergeSpans: Record<string, MergeSpanInfo>,
+    row: number,
+    col: number,
+    rowDelta: number,
+    colDelta: number
+): { row: number; col: number } => {
+    const getCell = (r: number, c: number): CellObject | undefined =>
+        tableRows.find(tr => tr.rowIndex === r)?.cells.find(cell => cell.columnIndex === c);
+    const current = getCell(row, col);
+    const { rowSpan, colSpan } = current ? getCellSpan(current, mergeSpans) : { rowSpan: 1, colSpan: 1 };
+    const targetRow = rowDelta > 0 ? row + rowSpan : rowDelta < 0 ? row - 1 : row;
+    const targetCol = colDelta > 0 ? col + colSpan : colDelta < 0 ? col - 1 : col;
+    const target = getCell(targetRow, targetCol);
+    if (!target) return { row, col };
+    if (isCellHidden(target, mergeSpans)) {
+        const span = mergeSpans[target.mergeId];
+        return { row: span.anchorRow, col: span.anchorCol };
+    }
+    return { row: targetRow, col: targetCol };
+};
+
+// ── Autofill ──────────────────────────────────────────────────────────────────
+// The fill area is the bounding box of the source range and the cell under the
+// handle, so a diagonal drag fills in two dimensions. In "series" mode each
+// cell's value is linear in its offset from the source's top-left cell:
+//   - steps come from neighbouring source cells when the source has two or more
+//     cells along an axis (so "5, 4" counts down and "C02, C04" steps by two)
+//   - a single source cell counts up by one away from itself
+//   - the missing step of a one-row (or one-column) source continues the
+//     numbering line by line across the fill width (or height)
+// Sources that don't form a series, and "copy" mode, repeat the source block.
+export type AutofillMode = "series" | "copy";
+
+export interface AutofillCell {
+    row: number;
+    col: number;
+    value: string;
+}
+
+export const getAutofillRange = (source: CellRange, targetRow: number, targetCol: number): CellRange => ({
+    minRow: Math.min(source.minRow, targetRow),
+    maxRow: Math.max(source.maxRow, targetRow),
+    minCol: Math.min(source.minCol, targetCol),
+    maxCol: Math.max(source.maxCol, targetCol)
+});
+
+export const getAutofillCells = (
+    tableRows: TableRow[],
+    mergeSpans: Record<string, MergeSpanInfo>,
+    source: CellRange,
+    targetRow: number,
+    targetCol: number,
+    mode: AutofillMode
+): AutofillCell[] => {
+    const area = getAutofillRange(source, targetRow, targetCol);
+    const height = source.maxRow - source.minRow + 1;
+    const width = source.maxCol - source.minCol + 1;
+    const sourceText = (r: number, c: number): string => getCellAt(tableRows, r, c)?.sequenceNumber ?? "-";
+
+    const parsed: Array<SeriesValue | null> = [];
+    for (let r = source.minRow; r <= source.maxRow; r++)
+        for (let c = source.minCol; c <= source.maxCol; c++) parsed.push(parseSeriesValue(sourceText(r, c)));
+    const template =
+        mode === "series" && parsed.every(v => v !== null) ? getSeriesTemplate(parsed as SeriesValue[]) : null;
+
+    let valueAt: (r: number, c: number) => string | null;
+    if (template) {
+        const at = (r: number, c: number): number => parsed[(r - source.minRow) * width + (c - source.minCol)]!.number;
+        const base = at(source.minRow, source.minCol);
+        const areaWidth = area.maxCol - area.minCol + 1;
+        const areaHeight = area.maxRow - area.minRow + 1;
+        let colStep = width > 1 ? at(source.minRow, source.minCol + 1) - base : null;
+        let rowStep = height > 1 ? at(source.minRow + 1, source.minCol) - base : null;
+        if (colStep === null && rowStep === null) {
+            const colDir = Math.sign(targetCol - source.minCol);
+            const rowDir = Math.sign(targetRow - source.minRow);
+            colStep = colDir;
+            rowStep = colDir !== 0 ? rowDir * areaWidth : rowDir;
+        } else if (rowStep === null) {
+            rowStep = colStep! * areaWidth;
+        } else if (colStep === null) {
+            colStep = rowStep * areaHeight;
+        }
+        const steps = { row: rowStep, col: colStep! };
+        valueAt = (r, c) =>
+            formatSeriesValue(template, base + (r - source.minRow) * steps.row + (c - source.minCol) * steps.col);
+    } else {
+        const wrap = (offset: number, size: number): number => ((offset % size) + size) % size;
+        valueAt = (r, c) =>
+            sourceText(source.minRow + wrap(r - source.minRow, height), source.minCol + wrap(c - source.minCol, width));
+    }
+
+    const result: AutofillCell[] = [];
+    for (let r = area.minRow; r <= area.maxRow; r++) {
+        for (let c = area.minCol; c <= area.maxCol; c++) {
+            if (r >= source.minRow && r <= source.maxRow && c >= source.minCol && c <= source.maxCol) continue;
+            const cell = getCellAt(tableRows, r, c);
+            // Blank cells and hidden merge members keep their place in the series but take no value
+            if (!cell || !isFillable(cell, mergeSpans)) continue;
+            const value = valueAt(r, c);
+            if (value !== null) result.push({ row: r, col: c, value });
+        }
+    }
+    return result;
+};
+
+export const createMergeId = (r1: number, c1: number, r2: number, c2: number): string => `${r1}_${c1}_${r2}_${c2}`;
+
+export const createEmptyCell = (rowIndex: number, colIndex: number): CellObject => ({
+    id: `cell_${rowIndex}_${colIndex}`,
+    sequenceNumber: "-",
+    isBlocked: false,
+    isMerged: false,
+    mergeId: "",
+    isBlank: false,
+    state: "",
+    rowIndex,
+    columnIndex: colIndex
+});
+
+// ── Helper: new cell placed between two neighbours joins their merge group ────
+const createInsertedCell = (before: CellObject | undefined, after: CellObject | undefined): CellObject => {
+    if (before?.isMerged && before.mergeId && before.mergeId === after?.mergeId) {
+        return { ...before };
+    }
+    return createEmptyCell(0, 0);
+};
+
+// ── Helper: renumber ids/indexes and re-key merge groups after a structural change ──
+const reindexTableRows = (rows: TableRow[]): TableRow[] => {
+    const newRows: TableRow[] = rows.map((row, idx) => {
+        const rowIndex = idx + 1;
+        return {
+            ...row,
+            id: `row_${rowIndex}`,
+            rowIndex,
+            cells: row.cells.map((cell, cIdx) => {
+                const colIndex = cIdx + 1;
+                return { ...cell, id: `cell_${rowIndex}_${colIndex}`, rowIndex, columnIndex: colIndex };
+            })
+        };
+    });
+    // Merge ids encode their coordinates, so shifted groups get a fresh id to avoid
+    // colliding with a group created later at the old position
+    const spans = computeMergeSpans(newRows);
+    const sizes: Record<string, number> = {};
+    newRows.forEach(row =>
+        row.cells.forEach(cell => {
+            if (cell.isMerged && cell.mergeId) sizes[cell.mergeId] = (sizes[cell.mergeId] || 0) + 1;
+        })
+    );
+    newRows.forEach(row =>
+        row.cells.forEach(cell => {
+            if (!cell.isMerged || !cell.mergeId) return;
+            if (sizes[cell.mergeId] < 2) {
+                cell.isMerged = false;
+                cell.mergeId = "";
+                return;
+            }
+            const span = spans[cell.mergeId];
+            cell.mergeId = createMergeId(
+                span.anchorRow,
+                span.anchorCol,
+                span.anchorRow + span.rowSpan - 1,
+                span.anchorCol + span.colSpan - 1
+            );
+        })
+    );
+    return newRows;
+};
+
+// position is the 1-based index the new row will get
+export const insertRowAt = (rows: TableRow[], position: number): TableRow[] => {
+    const above = rows[position - 2];
+    const below = rows[position - 1];
+    const columnCount = rows[0]?.cells.length ?? 0;
+    const newRow: TableRow = {
+        id: "",
+        rowIndex: position,
+        cells: Array.from({ length: columnCount }, (_, cIdx) =>
+            createInsertedCell(above?.cells[cIdx], below?.cells[cIdx])
+        )
+    };
+    return reindexTableRows([...rows.slice(0, position - 1), newRow, ...rows.slice(position - 1)]);
+};
+
+// position is the 1-based index the new column will get
+export const insertColumnAt = (rows: TableRow[], position: number): TableRow[] =>
+    reindexTableRows(
+        rows.map(row => ({
+            ...row,
+            cells: [
+                ...row.cells.slice(0, position - 1),
+                createInsertedCell(row.cells[position - 2], row.cells[position - 1]),
+                ...row.cells.slice(position - 1)
+            ]
+        }))
+    );
+
+// ── Helper: pad the grid with empty cells up to the given size (never shrinks) ──
+export const growTableRows = (rows: TableRow[], rowCnt: number, colCnt: number): TableRow[] => {
+    const columns = Math.max(colCnt, rows[0]?.cells.length ?? 0);
+    const grown = rows.map(row => ({
+        ...row,
+        cells: [
+            ...row.cells,
+            ...Array.from({ length: columns - row.cells.length }, (_, i) =>
+                createEmptyCell(row.rowIndex, row.cells.length + i + 1)
+            )
+        ]
+    }));
+    for (let rowIndex = grown.length + 1; rowIndex <= rowCnt; rowIndex++) {
+        grown.push({
+            id: `row_${rowIndex}`,
+            rowIndex,
+            cells: Array.from({ length: columns }, (_, cIdx) => createEmptyCell(rowIndex, cIdx + 1))
+        });
+    }
+    return grown;
+};
+
+export const deleteRowsAt = (rows: TableRow[], rowIndexes: Set<number>): TableRow[] =>
+    reindexTableRows(rows.filter(row => !rowIndexes.has(row.rowIndex)));
+
+export const deleteColumnsAt = (rows: TableRow[], colIndexes: Set<number>): TableRow[] =>
+    reindexTableRows(rows.map(row => ({ ...row, cells: row.cells.filter(cell => !colIndexes.has(cell.columnIndex)) })));
+
+// ── Create / resize ───────────────────────────────────────────────────────────
+export const createTable = (rowCnt: number, colCnt: number): TableRow[] =>
+    rowCnt <= 0 || colCnt <= 0 ? [] : growTableRows([], rowCnt, colCnt);
+
+// Grows with empty cells or trims trailing rows/columns; merges cut by a trim shrink
+export const resizeTable = (rows: TableRow[], rowCnt: number, colCnt: number): TableRow[] => {
+    if (rowCnt <= 0 || colCnt <= 0) return rows;
+    const currentRows = rows.length;
+    const currentCols = rows[0]?.cells.length ?? 0;
+    if (rowCnt === currentRows && colCnt === currentCols) return rows;
+    let result = growTableRows(rows, Math.max(rowCnt, currentRows), Math.max(colCnt, currentCols));
+    if (rowCnt < currentRows) {
+        result = deleteRowsAt(result, new Set(Array.from({ length: currentRows - rowCnt }, (_, i) => rowCnt + i + 1)));
+    }
+    if (colCnt < currentCols) {
+        result = deleteColumnsAt(
+            result,
+            new Set(Array.from({ length: currentCols - colCnt }, (_, i) => colCnt + i + 1))
+        );
+    }
+    return result;
+};
+
+// ── Cell values and flags (always applied to the whole merge group) ───────────
+const patchGroup = (rows: TableRow[], target: CellObject, patch: GroupPatch): void => {
+    Object.assign(target, patch);
+    if (!target.isMerged || !target.mergeId) return;
+    const mergeId = target.mergeId;
+    rows.forEach(row =>
+        row.cells.forEach(cell => {
+            if (cell.mergeId === mergeId) Object.assign(cell, patch);
+        })
+    );
+};
+
+export const setCellValue = (rows: TableRow[], row: number, col: number, value: string): TableRow[] => {
+    const current = getCellAt(rows, row, col);
+    if (!current || current.sequenceNumber === value) return rows;
+    const newRows = cloneRows(rows);
+    patchGroup(newRows, getCellAt(newRows, row, col)!, { sequenceNumber: value });
+    return newRows;
+};
+
+// Writes several values in one step; blank cells and hidden merge members are skipped
+export const setCellValues = (
+    rows: TableRow[],
+    values: Array<{ row: number; col: number; value: string }>
+): TableRow[] => {
+    const spans = computeMergeSpans(rows);
+    const newRows = cloneRows(rows);
+    let changed = false;
+    values.forEach(({ row, col, value }) => {
+        const cell = getCellAt(newRows, row, col);
+        if (!cell || !isFillable(cell, spans) || cell.sequenceNumber === value) return;
+        patchGroup(newRows, cell, { sequenceNumber: value });
+        changed = true;
+    });
+    return changed ? newRows : rows;
+};
+
+export const toggleBlocked = (rows: TableRow[], row: number, col: number): TableRow[] => {
+    const current = getCellAt(rows, row, col);
+    if (!current) return rows;
+    const newRows = cloneRows(rows);
+    patchGroup(newRows, getCellAt(newRows, row, col)!, { isBlocked: !current.isBlocked });
+    return newRows;
+};
+
+const setFlag = (rows: TableRow[], positions: CellPosition[], patch: GroupPatch): TableRow[] => {
+    const spans = computeMergeSpans(rows);
+    const newRows = cloneRows(rows);
+    let changed = false;
+    positions.forEach(({ row, col }) => {
+        const cell = getCellAt(newRows, row, col);
+        if (!cell || isCellHidden(cell, spans)) return;
+        patchGroup(newRows, cell, patch);
+        changed = true;
+    });
+    return changed ? newRows : rows;
+};
+
+export const setBlocked = (rows: TableRow[], positions: CellPosition[], blocked: boolean): TableRow[] =>
+    setFlag(rows, positions, { isBlocked: blocked });
+
+export const setBlank = (rows: TableRow[], positions: CellPosition[], blank: boolean): TableRow[] =>
+    setFlag(rows, positions, { isBlank: blank });
+
+export const setCellState = (rows: TableRow[], positions: CellPosition[], state: string): TableRow[] =>
+    setFlag(rows, positions, { state });
+
+// null removes the field; a cell without any field has no metadata at all
+export const setCellMetadata = (
+    rows: TableRow[],
+    row: number,
+    col: number,
+    key: string,
+    value: string | number | null
+): TableRow[] => {
+    const current = getCellAt(rows, row, col);
+    if (!current || (current.metadata?.[key] ?? null) === value) return rows;
+    const newRows = cloneRows(rows);
+    patchGroup(newRows, getCellAt(newRows, row, col)!, { metadata: mergeMetadataValue(current.metadata, key, value) });
+    return newRows;
+};
+
+// ── Auto-numbering ────────────────────────────────────────────────────────────
+// Numbers cells in traversal order. A merge group is one cavity: it is numbered
+// when the traversal first reaches any of its cells. Skipped blocked/blank
+// cells keep whatever they hold.
+export const autoNumberCells = (rows: TableRow[], options: AutoNumberOptions): TableRow[] => {
+    const newRows = cloneRows(rows);
+    const visitedGroups = new Set<string>();
+    let counter = options.start;
+    let changed = false;
+    const assign = (cell: CellObject, value: string): void => {
+        if (cell.sequenceNumber === value) return;
+        patchGroup(newRows, cell, { sequenceNumber: value });
+        changed = true;
+    };
+
+    getTraversalOrder(newRows.length, newRows[0]?.cells.length ?? 0, options.order, options.corner).forEach(
+        ({ row, col }) => {
+            const cell = getCellAt(newRows, row, col);
+            if (!cell) return;
+            if (cell.isMerged && cell.mergeId) {
+                if (visitedGroups.has(cell.mergeId)) return;
+                visitedGroups.add(cell.mergeId);
+            }
+            if ((cell.isBlocked && !options.includeBlocked) || (cell.isBlank && !options.includeBlank)) return;
+            assign(cell, formatLabel(options.template, counter, options.prefix));
+            counter += options.step;
+        }
+    );
+    return changed ? newRows : rows;
+};
+
+// ── Merge / unmerge ───────────────────────────────────────────────────────────
+// The selection is mergeable when it covers a full rectangle, counting hidden
+// members of a merge as covered once its anchor is selected.
+export const getMergeRange = (rows: TableRow[], cellIds: Iterable<string>): CellRange | null => {
+    const selected = new Set(cellIds);
+    const positions = Array.from(selected)
+        .map(parseCellId)
+        .filter((p): p is CellPosition => p !== null);
+    if (positions.length < 2) return null;
+    const range: CellRange = {
+        minRow: Math.min(...positions.map(p => p.row)),
+        maxRow: Math.max(...positions.map(p => p.row)),
+        minCol: Math.min(...positions.map(p => p.col)),
+        maxCol: Math.max(...positions.map(p => p.col))
+    };
+    const spans = computeMergeSpans(rows);
+    for (let r = range.minRow; r <= range.maxRow; r++) {
+        for (let c = range.minCol; c <= range.maxCol; c++) {
+            if (selected.has(`cell_${r}_${c}`)) continue;
+            const cell = getCellAt(rows, r, c);
+            const span = cell?.isMerged && cell.mergeId ? spans[cell.mergeId] : undefined;
+            if (!span || !selected.has(`cell_${span.anchorRow}_${span.anchorCol}`)) return null;
+        }
+    }
+    return range;
+};
+
+// Groups touching the range are dissolved first; the new group takes the top-left cell's state
+export const mergeRange = (rows: TableRow[], range: CellRange): TableRow[] => {
+    const { minRow, maxRow, minCol, maxCol } = range;
+    if (minRow === maxRow && minCol === maxCol) return rows;
+    const newRows = cloneRows(rows);
+    for (let r = minRow; r <= maxRow; r++) {
+        for (let c = minCol; c <= maxCol; c++) {
+            const cell = getCellAt(newRows, r, c);
+            if (!cell?.isMerged || !cell.mergeId) continue;
+            const oldId = cell.mergeId;
+            newRows.forEach(row =>
+                row.cells.forEach(c2 => {
+                    if (c2.mergeId === oldId) {
+                        c2.isMerged = false;
+                        c2.mergeId = "";
+                    }
+                })
+            );
+        }
+    }
+    const topLeft = getCellAt(newRows, minRow, minCol);
+    if (!topLeft) return rows;
+    const mergeId = createMergeId(minRow, minCol, maxRow, maxCol);
+    for (let r = minRow; r <= maxRow; r++) {
+        for (let c = minCol; c <= maxCol; c++) {
+            const cell = getCellAt(newRows, r, c);
+            if (!cell) continue;
+            cell.sequenceNumber = topLeft.sequenceNumber;
+            cell.isBlocked = topLeft.isBlocked;
+            cell.isBlank = topLeft.isBlank;
+            cell.state = topLeft.state;
+            cell.metadata = topLeft.metadata;
+            cell.isMerged = true;
+            cell.mergeId = mergeId;
+        }
+    }
+    return newRows;
+};
+
+export const unmergeAt = (rows: TableRow[], row: number, col: number): TableRow[] => {
+    const target = getCellAt(rows, row, col);
+    if (!target?.isMerged || !target.mergeId) return rows;
+    const mergeId = target.mergeId;
+    return rows.map(r => ({
+        ...r,
+        cells: r.cells.map(cell => (cell.mergeId === mergeId ? { ...cell, isMerged: false, mergeId: "" } : cell))
+    }));
+};
+
+// ── Autofill ──────────────────────────────────────────────────────────────────
+export const applyAutofill = (
+    rows: TableRow[],
+    source: CellRange,
+    targetRow: number,
+    targetCol: number,
+    mode: AutofillMode
+): TableRow[] =>
+    setCellValues(rows, getAutofillCells(rows, computeMergeSpans(rows), source, targetRow, targetCol, mode));
+
+// ── Statistics ────────────────────────────────────────────────────────────────
+export const getTableStatistics = (rows: TableRow[]): TableStatistics => {
+    const spans = computeMergeSpans(rows);
+    const cells = rows.flatMap(row => row.cells);
+    return {
+        totalCells: cells.length,
+        blockedCells: cells.filter(c => c.isBlocked).length,
+        mergedCells: cells.filter(c => c.isMerged && !isCellHidden(c, spans)).length,
+        blankCells: cells.filter(c => c.isBlank && !isCellHidden(c, spans)).length
+    };
+};
+
+// False for a freshly generated grid: nothing would be lost by replacing it
+export const hasTableContent = (rows: TableRow[]): boolean =>
+    rows.some(row =>
+        row.cells.some(
+            cell =>
+                cell.sequenceNumber !== "-" ||
+                cell.isBlocked ||
+                cell.isMerged ||
+                cell.isBlank ||
+                cell.state !== "" ||
+                cell.metadata !== undefined
+        )
+    );
+
+// One count per cavity: blank cells and hidden merge members don't count
+export const getStateCounts = (rows: TableRow[]): Record<string, number> => {
+    const spans = computeMergeSpans(rows);
+    const counts: Record<string, number> = {};
+    rows.forEach(row =>
+        row.cells.forEach(cell => {
+            if (cell.state === "" || cell.isBlank || isCellHidden(cell, spans)) return;
+            counts[cell.state] = (counts[cell.state] ?? 0) + 1;
+        })
+    );
+    return counts;
+};
+
+// Cavities in use: not blocked, not blank and not in a state that is configured
+// as inactive (e.g. maintenance)
+export const getActiveCellCount = (rows: TableRow[], inactiveStates: ReadonlySet<string>): number => {
+    const spans = computeMergeSpans(rows);
+    return rows.reduce(
+        (sum, row) =>
+            sum +
+            row.cells.filter(
+                cell =>
+                    !cell.isBlocked && !cell.isBlank && !isCellHidden(cell, spans) && !inactiveStates.has(cell.state)
+            ).length,
+        0
+    );
+};
+
+// ── (De)serialise ─────────────────────────────────────────────────────────────
+export const serializeTable = (
+    rows: TableRow[],
+    metadata?: TableData["metadata"],
+    headerLabels?: HeaderLabels
+): string => {
+    const columns = rows[0]?.cells.length ?? 0;
+    const tableData: TableData = {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        rows: rows.length,
+        columns,
+        tableRows: rows,
+        headerLabels: headerLabels && compactHeaderLabels(headerLabels, rows.length, columns),
+        metadata: metadata ?? { updatedAt: new Date().toISOString() }
+    };
+    return JSON.stringify(tableData);
+};
+
+export const deserializeTable = (json: string, maxRows = 100, maxColumns = 100): ParseResult =>
+    parseTableData(json, maxRows, maxColumns);
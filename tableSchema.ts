@@ -0,0 +1,248 @@
+import { CellObject, TableData, TableRow } from "./tableTypes";
+import { normaliseHeaderLabels } from "./tableHeaders";
+import { isSameMetadata, normaliseMetadata } from "./cellMetadata";
+
+// ── Persisted TableData schema ────────────────────────────────────────────────
+// Version 1 is the original format without a schemaVersion field. Bump
+// CURRENT_SCHEMA_VERSION and add a migration whenever the JSON shape changes.
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface SchemaProblem {
+    severity: "error" | "warning";
+    message: string;
+}
+
+export interface ParseResult {
+    // null when the JSON cannot be loaded at all
+    data: TableData | null;
+    problems: SchemaProblem[];
+    // The stored JSON was migrated or repaired and should be written back
+    changed: boolean;
+    // Written by a newer widget version: shown but never saved over, so its unknown fields survive
+    readOnly: boolean;
+}
+
+type RawData = Record<string, unknown>;
+
+const isRawData = (value: unknown): value is RawData => !!value && typeof value === "object" && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value > 0;
+
+const getCells = (row: unknown): unknown[] | null => (isRawData(row) && Array.isArray(row.cells) ? row.cells : null);
+
+const migrations: Record<number, (data: RawData) => RawData> = {
+    // v1 → v2: mergeSpans is derived from the cells on load, so a stale copy is dropped
+    1: data => {
+        const migrated: RawData = { ...data, schemaVersion: 2 };
+        delete migrated.mergeSpans;
+        return migrated;
+    }
+};
+
+interface Migration {
+    data: RawData;
+    migrated: boolean;
+    isNewer: boolean;
+}
+
+const migrate = (data: RawData, problems: SchemaProblem[]): Migration => {
+    let version = typeof data.schemaVersion === "number" ? data.schemaVersion : 1;
+    if (version > CURRENT_SCHEMA_VERSION) {
+        problems.push({
+            severity: "warning",
+            message: `Table data has schema version ${version}, newer than this widget supports (${CURRENT_SCHEMA_VERSION}); it is shown read-only so it is not overwritten`
+        });
+        return { data, migrated: false, isNewer: true };
+    }
+    let migrated = data;
+    while (version < CURRENT_SCHEMA_VERSION) {
+        migrated = migrations[version](migrated);
+        version++;
+    }
+    return { data: migrated, migrated: migrated !== data, isNewer: false };
+};
+
+const toFlag = (value: unknown): boolean => value === true || value === "true";
+
+const normaliseCell = (value: unknown, rowIndex: number, columnIndex: number): CellObject => {
+    const raw: RawData = isRawData(value) ? value : {};
+    const sequenceNumber =
+        typeof raw.sequenceNumber === "string" && raw.sequenceNumber !== ""
+            ? raw.sequenceNumber
+            : typeof raw.sequenceNumber === "number"
+            ? String(raw.sequenceNumber)
+            : "-";
+    const mergeId = typeof raw.mergeId === "string" ? raw.mergeId : "";
+    return {
+        id: `cell_${rowIndex}_${columnIndex}`,
+        sequenceNumber,
+        isBlocked: toFlag(raw.isBlocked),
+        // A merge needs both the flag and a group id
+        isMerged: toFlag(raw.isMerged) && mergeId !== "",
+        mergeId: toFlag(raw.isMerged) ? mergeId : "",
+        isBlank: toFlag(raw.isBlank),
+        state: typeof raw.state === "string" ? raw.state : "",
+        metadata: normaliseMetadata(raw.metadata),
+        rowIndex,
+        columnIndex
+    };
+};
+
+const normaliseTimestamps = (raw: RawData): TableData["metadata"] => ({
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : undefined,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : undefined
+});
+
+// ── Merge groups must be filled rectangles with consistent anchor values ───────
+const repairMergeGroups = (rows: TableRow[], problems: SchemaProblem[]): void => {
+    const groups: Record<string, CellObject[]> = {};
+    rows.forEach(row =>
+        row.cells.forEach(cell => {
+            if (cell.isMerged) (groups[cell.mergeId] = groups[cell.mergeId] || []).push(cell);
+        })
+    );
+
+    Object.entries(groups).forEach(([mergeId, cells]) => {
+        const minRow = Math.min(...cells.map(c => c.rowIndex));
+        const maxRow = Math.max(...cells.map(c => c.rowIndex));
+        const minCol = Math.min(...cells.map(c => c.columnIndex));
+        const maxCol = Math.max(...cells.map(c => c.columnIndex));
+        const area = (maxRow - minRow + 1) * (maxCol - minCol + 1);
+
+        if (cells.length < 2 || cells.length !== area) {
+            problems.push({
+                severity: "warning",
+                message:
+                    cells.length < 2
+                        ? `Merge group "${mergeId}" has a single cell and was removed`
+                        : `Merge group "${mergeId}" is not rectangular (or its id is used twice) and was split into single cells`
+            });
+            cells.forEach(cell => {
+                cell.isMerged = false;
+                cell.mergeId = "";
+            });
+            return;
+        }
+
+        const anchor = cells.find(c => c.rowIndex === minRow && c.columnIndex === minCol);
+        if (!anchor) return;
+        const inconsistent = cells.some(
+            c =>
+                c.sequenceNumber !== anchor.sequenceNumber ||
+                c.isBlocked !== anchor.isBlocked ||
+                c.isBlank !== anchor.isBlank ||
+                c.state !== anchor.state ||
+                !isSameMetadata(c.metadata, anchor.metadata)
+        );
+        if (inconsistent) {
+            problems.push({
+                severity: "warning",
+                message: `Cells of merge group "${mergeId}" had different values or states and now follow the top-left cell`
+            });
+            cells.forEach(cell => {
+                cell.sequenceNumber = anchor.sequenceNumber;
+                cell.isBlocked = anchor.isBlocked;
+                cell.isBlank = anchor.isBlank;
+                cell.state = anchor.state;
+                cell.metadata = anchor.metadata;
+            });
+        }
+    });
+};
+
+// ── Parse, migrate, validate and repair persisted table JSON ──────────────────
+export const parseTableData = (json: string, maxRows: number, maxColumns: number): ParseResult => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch (error) {
+        return {
+            data: null,
+            problems: [{ severity: "error", message: `Table data is not valid JSON: ${(error as Error).message}` }],
+            changed: false,
+            readOnly: false
+        };
+    }
+    return normaliseTableData(raw, maxRows, maxColumns);
+};
+
+// ── Migrate, validate and repair an already parsed TableData object ───────────
+export const normaliseTableData = (raw: unknown, maxRows: number, maxColumns: number): ParseResult => {
+    const problems: SchemaProblem[] = [];
+    const fail = (message: string): ParseResult => ({
+        data: null,
+        problems: [...problems, { severity: "error", message }],
+        changed: false,
+        readOnly: false
+    });
+
+    if (!isRawData(raw)) return fail("Table data must be a JSON object");
+
+    const { data, migrated, isNewer } = migrate(raw, problems);
+    const storedRows = data.tableRows;
+    if (!Array.isArray(storedRows)) return fail("Table data has no tableRows array");
+    if (storedRows.length === 0) return fail("Table data has no rows");
+    // Everything pushed from here on is a repair
+    const problemsBeforeRepair = problems.length;
+
+    const actualRows = storedRows.length;
+    const actualColumns = Math.max(0, ...storedRows.map(row => getCells(row)?.length ?? 0));
+    const declaredRows = isPositiveInteger(data.rows) ? data.rows : null;
+    const declaredColumns = isPositiveInteger(data.columns) ? data.columns : null;
+
+    if (declaredRows === null || declaredColumns === null) {
+        problems.push({
+            severity: "warning",
+            message: "Row or column count was missing or invalid and was taken from the cells"
+        });
+    }
+    // Never drop cells: a mismatch grows the table to whichever is larger
+    const rows = Math.max(declaredRows ?? 0, actualRows);
+    const columns = Math.max(declaredColumns ?? 0, actualColumns);
+    if (columns === 0) return fail("Table data has no cells");
+    if (rows > maxRows || columns > maxColumns) {
+        return fail(`Table data is ${rows} × ${columns}, larger than the maximum of ${maxRows} × ${maxColumns}`);
+    }
+    if (declaredRows !== null && declaredRows !== actualRows) {
+        problems.push({
+            severity: "warning",
+            message: `rows is ${declaredRows} but ${actualRows} row(s) were stored; the table now has ${rows} rows`
+        });
+    }
+
+    const shortRows: number[] = [];
+    const tableRows: TableRow[] = Array.from({ length: rows }, (_, idx) => {
+        const rowIndex = idx + 1;
+        const rawCells = getCells(storedRows[idx]) ?? [];
+        if (idx < actualRows && rawCells.length < columns) shortRows.push(rowIndex);
+        return {
+            id: `row_${rowIndex}`,
+            rowIndex,
+            cells: Array.from({ length: columns }, (_, cIdx) => normaliseCell(rawCells[cIdx], rowIndex, cIdx + 1))
+        };
+    });
+    if (shortRows.length > 0) {
+        problems.push({
+            severity: "warning",
+            message: `Row(s) ${shortRows.join(", ")} had fewer than ${columns} cells and were padded`
+        });
+    }
+
+    repairMergeGroups(tableRows, problems);
+
+    return {
+        data: {
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            rows,
+            columns,
+            tableRows,
+            headerLabels: data.headerLabels ? normaliseHeaderLabels(data.headerLabels) : undefined,
+            metadata: isRawData(data.metadata) ? normaliseTimestamps(data.metadata) : undefined
+        },
+        problems,
+        changed: migrated || problems.length > problemsBeforeRepair,
+        readOnly: isNewer
+    };
+};
@@ -0,0 +1,44 @@
+// Values of the configured metadata fields by field key
+export type CellMetadata = Record<string, string | number>;
+
+export interface CellObject {
+    id: string;
+    sequenceNumber: string;
+    isBlocked: boolean;
+    isMerged: boolean;
+    mergeId: string;
+    isBlank: boolean;
+    // Key of an entry in the configured state catalogue; "" for no state
+    state: string;
+    // Left out while the cell has no metadata
+    metadata?: CellMetadata;
+    rowIndex: number;
+    columnIndex: number;
+}
+
+export interface TableRow {
+    id: string;
+    rowIndex: number;
+    cells: CellObject[];
+}
+
+export interface TableData {
+    schemaVersion?: number;
+    rows: number;
+    columns: number;
+    tableRows: TableRow[];
+    mergeSpans?: Record<string, { rowSpan: number; colSpan: number; anchorRow: number; anchorCol: number }>;
+    // Renamed header labels by index; "" or a missing entry keeps the automatic label
+    headerLabels?: { rows: string[]; columns: string[] };
+    metadata?: {
+        createdAt?: string;
+        updatedAt?: string;
+    };
+}
+
+export interface MergeSpanInfo {
+    rowSpan: number;
+    colSpan: number;
+    anchorRow: number;
+    anchorCol: number;
+}
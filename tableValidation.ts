@@ -0,0 +1,153 @@
+import { TableRow } from "./tableTypes";
+import { computeMergeSpans, isCellHidden } from "./tableModel";
+import { parseSeriesValue } from "./fillSeries";
+
+// ── Cavity number validation ─────────────────────────────────────────────────
+// Rules apply to active cells: not blocked, not blank, not in an inactive
+// state, and one cell per merge group. Labels such as "C07" are compared by their number for the range and
+// contiguity rules; uniqueness compares the label text itself.
+
+export interface ValidationRules {
+    unique: boolean;
+    contiguous: boolean;
+    numericOnly: boolean;
+    min?: number;
+    max?: number;
+}
+
+export type ValidationRule = "unique" | "contiguous" | "numeric" | "range";
+
+export interface ValidationIssue {
+    rule: ValidationRule;
+    message: string;
+    // Cells to highlight; empty for issues that aren't tied to a cell (gaps)
+    cellIds: string[];
+}
+
+export interface ValidationResult {
+    valid: boolean;
+    issues: ValidationIssue[];
+    invalidCellIds: Set<string>;
+}
+
+export const hasValidationRules = (rules: ValidationRules): boolean =>
+    rules.unique || rules.contiguous || rules.numericOnly || rules.min !== undefined || rules.max !== undefined;
+
+// Lists at most a handful of items so messages stay readable for big plates
+const formatList = (items: Array<string | number>, limit = 8): string =>
+    items.length > limit ? `${items.slice(0, limit).join(", ")} and ${items.length - limit} more` : items.join(", ");
+
+const cellLabel = (id: string): string => {
+    const [, row, col] = id.split("_");
+    return `R${row}C${col}`;
+};
+
+export const validateTable = (
+    rows: TableRow[],
+    rules: ValidationRules,
+    inactiveStates: ReadonlySet<string> = new Set()
+): ValidationResult => {
+    const issues: ValidationIssue[] = [];
+    if (hasValidationRules(rules)) {
+        const spans = computeMergeSpans(rows);
+        const active = rows
+            .flatMap(row => row.cells)
+            .filter(
+                cell =>
+                    !cell.isBlocked && !cell.isBlank && !isCellHidden(cell, spans) && !inactiveStates.has(cell.state)
+            )
+            .map(cell => {
+                const value = cell.sequenceNumber.trim();
+                const numbered = value !== "" && value !== "-";
+                return { id: cell.id, value, numbered, number: numbered ? parseSeriesValue(value)?.number : undefined };
+            });
+
+        if (rules.unique) {
+            const byValue = new Map<string, string[]>();
+            active.filter(c => c.numbered).forEach(c => byValue.set(c.value, [...(byValue.get(c.value) ?? []), c.id]));
+            byValue.forEach((ids, value) => {
+                if (ids.length > 1) {
+                    issues.push({
+                        rule: "unique",
+                        message: `"${value}" is used by ${ids.length} cells (${formatList(ids.map(cellLabel))})`,
+                        cellIds: ids
+                    });
+                }
+            });
+        }
+
+        if (rules.numericOnly) {
+            const missing = active.filter(c => !c.numbered).map(c => c.id);
+            const nonNumeric = active.filter(c => c.numbered && !/^-?\d+$/.test(c.value)).map(c => c.id);
+            if (missing.length > 0) {
+                issues.push({
+                    rule: "numeric",
+                    message: `${missing.length} active cell(s) have no number (${formatList(missing.map(cellLabel))})`,
+                    cellIds: missing
+                });
+            }
+            if (nonNumeric.length > 0) {
+                issues.push({
+                    rule: "numeric",
+                    message: `${nonNumeric.length} cell(s) are not whole numbers (${formatList(
+                        nonNumeric.map(cellLabel)
+                    )})`,
+                    cellIds: nonNumeric
+                });
+            }
+        }
+
+        if (rules.min !== undefined || rules.max !== undefined) {
+            const outside = active.filter(
+                c =>
+                    c.number !== undefined &&
+                    ((rules.min !== undefined && c.number < rules.min) ||
+                        (rules.max !== undefined && c.number > rules.max))
+            );
+            if (outside.length > 0) {
+                const bounds =
+                    rules.min !== undefined && rules.max !== undefined
+                        ? `${rules.min}–${rules.max}`
+                        : rules.min !== undefined
+                        ? `at least ${rules.min}`
+                        : `at most ${rules.max}`;
+                issues.push({
+                    rule: "range",
+                    message: `${outside.length} number(s) are outside ${bounds} (${formatList(
+                        outside.map(c => c.value)
+                    )})`,
+                    cellIds: outside.map(c => c.id)
+                });
+            }
+        }
+
+        if (rules.contiguous) {
+            const numbers = new Set(active.map(c => c.number).filter((n): n is number => n !== undefined));
+            if (numbers.size > 0) {
+                const sorted = Array.from(numbers).sort((a, b) => a - b);
+                const first = sorted[0];
+                const last = sorted[sorted.length - 1];
+                const gapCount = last - first + 1 - sorted.length;
+                if (gapCount > 0) {
+                    const gaps: number[] = [];
+                    for (let n = first; n <= last && gaps.length < 8; n++) if (!numbers.has(n)) gaps.push(n);
+                    const more = gapCount > gaps.length ? ` and ${gapCount - gaps.length} more` : "";
+                    issues.push({
+                        rule: "contiguous",
+                        message: `Numbers ${first}–${last} have gaps: ${gaps.join(", ")}${more} missing`,
+                        cellIds: []
+                    });
+                }
+            }
+        }
+    }
+
+    return {
+        valid: issues.length === 0,
+        issues,
+        invalidCellIds: new Set(issues.flatMap(issue => issue.cellIds))
+    };
+};
+
+export const formatValidationMessage = (result: ValidationResult): string =>
+    result.issues.map(issue => issue.message).join("\n");
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ActionValue, EditableValue } from "mendix";
+import { FeedbackSeverity } from "./feedbackMessages";
+
+export interface FeedbackMessage {
+    id: number;
+    severity: FeedbackSeverity;
+    text: string;
+    // Questions stay until they are answered with their confirm or cancel button
+    isQuestion: boolean;
+}
+
+export interface Feedback {
+    messages: FeedbackMessage[];
+    report: (severity: FeedbackSeverity, text: string) => void;
+    ask: (text: string, onConfirm: () => void, onCancel?: () => void) => void;
+    answer: (id: number, confirmed: boolean) => void;
+    dismiss: (id: number) => void;
+}
+
+interface Answers {
+    onConfirm: () => void;
+    onCancel?: () => void;
+}
+
+const MAX_MESSAGES = 3;
+const WARNING_TIMEOUT_MS = 5000;
+
+// ── Inline feedback instead of blocking browser alerts ────────────────────────
+// Warnings fade after a few seconds; errors stay until they are dismissed. The
+// app can show its own dialog from the message attribute and the error action.
+// Questions replace confirm(): the action runs when its message is confirmed.
+export const useFeedback = (messageAttribute?: EditableValue<string>, onError?: ActionValue): Feedback => {
+    const [messages, setMessages] = useState<FeedbackMessage[]>([]);
+    const messagesRef = useRef<FeedbackMessage[]>([]);
+    const nextIdRef = useRef<number>(1);
+    const timersRef = useRef<Map<number, number>>(new Map());
+    const answersRef = useRef<Map<number, Answers>>(new Map());
+
+    // Messages that are no longer shown lose their timer and, for a question, its answers
+    const update = useCallback((next: FeedbackMessage[]) => {
+        const kept = new Set(next.map(message => message.id));
+        messagesRef.current.forEach(({ id }) => {
+            if (kept.has(id)) return;
+            window.clearTimeout(timersRef.current.get(id));
+            timersRef.current.delete(id);
+            answersRef.current.delete(id);
+        });
+        messagesRef.current = next;
+        setMessages(next);
+    }, []);
+
+    const dismiss = useCallback(
+        (id: number) => update(messagesRef.current.filter(message => message.id !== id)),
+        [update]
+    );
+
+    // Repeating a message moves it to the end instead of stacking copies
+    const add = useCallback(
+        (message: FeedbackMessage) =>
+            update(
+                [...messagesRef.current.filter(existing => existing.text !== message.text), message].slice(
+                    -MAX_MESSAGES
+                )
+            ),
+        [update]
+    );
+
+    const report = useCallback(
+        (severity: FeedbackSeverity, text: string) => {
+            const id = nextIdRef.current++;
+            add({ id, severity, text, isQuestion: false });
+            if (severity === "warning")
+                timersRef.current.set(
+                    id,
+                    window.setTimeout(() => dismiss(id), WARNING_TIMEOUT_MS)
+                );
+            if (messageAttribute?.status === "available" && !messageAttribute.readOnly) messageAttribute.setValue(text);
+            if (severity === "error" && onError?.canExecute) onError.execute();
+        },
+        [messageAttribute, onError, add, dismiss]
+    );
+
+    const ask = useCallback(
+        (text: string, onConfirm: () => void, onCancel?: () => void) => {
+            const id = nextIdRef.current++;
+            add({ id, severity: "warning", text, isQuestion: true });
+            answersRef.current.set(id, { onConfirm, onCancel });
+        },
+        [add]
+    );
+
+    const answer = useCallback(
+        (id: number, confirmed: boolean) => {
+            const answers = answersRef.current.get(id);
+            dismiss(id);
+            if (confirmed) answers?.onConfirm();
+            else answers?.onCancel?.();
+        },
+        [dismiss]
+    );
+
+    useEffect(() => {
+        const timers = timersRef.current;
+        return () => timers.forEach(timer => window.clearTimeout(timer));
+    }, []);
+
+    return { messages, report, ask, answer, dismiss };
+};
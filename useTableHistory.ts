@@ -0,0 +1,95 @@
+import { useCallback, useRef, useState } from "react";
+
+interface HistoryEntry<T> {
+    snapshot: T;
+    label: string;
+}
+
+export interface TableHistory<T> {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string;
+    redoLabel: string;
+    record: (snapshot: T, label: string, coalesceKey?: string) => void;
+    undo: (current: T) => T | undefined;
+    redo: (current: T) => T | undefined;
+    breakCoalescing: () => void;
+    clear: () => void;
+}
+
+// ── Undo/redo stack of whole-table snapshots ──────────────────────────────────
+// Snapshots must be treated as immutable: every mutation in the widget copies
+// the rows before changing them, so storing references is enough.
+export const useTableHistory = <T>(limit = 100): TableHistory<T> => {
+    const undoStackRef = useRef<Array<HistoryEntry<T>>>([]);
+    const redoStackRef = useRef<Array<HistoryEntry<T>>>([]);
+    const coalesceKeyRef = useRef<string | null>(null);
+    // Stacks live in refs so undo/redo can pop synchronously; bump to re-render the buttons.
+    const [, setVersion] = useState<number>(0);
+    const bump = useCallback(() => setVersion(v => v + 1), []);
+
+    const record = useCallback(
+        (snapshot: T, label: string, coalesceKey?: string) => {
+            // Consecutive edits with the same key (e.g. keystrokes in one cell) share one entry
+            if (coalesceKey && coalesceKeyRef.current === coalesceKey) return;
+            coalesceKeyRef.current = coalesceKey ?? null;
+            undoStackRef.current = [...undoStackRef.current, { snapshot, label }].slice(-limit);
+            redoStackRef.current = [];
+            bump();
+        },
+        [limit, bump]
+    );
+
+    const undo = useCallback(
+        (current: T): T | undefined => {
+            const entry = undoStackRef.current[undoStackRef.current.length - 1];
+            if (!entry) return undefined;
+            undoStackRef.current = undoStackRef.current.slice(0, -1);
+            redoStackRef.current = [...redoStackRef.current, { snapshot: current, label: entry.label }];
+            coalesceKeyRef.current = null;
+            bump();
+            return entry.snapshot;
+        },
+        [bump]
+    );
+
+    const redo = useCallback(
+        (current: T): T | undefined => {
+            const entry = redoStackRef.current[redoStackRef.current.length - 1];
+            if (!entry) return undefined;
+            redoStackRef.current = redoStackRef.current.slice(0, -1);
+            undoStackRef.current = [...undoStackRef.current, { snapshot: current, label: entry.label }];
+            coalesceKeyRef.current = null;
+            bump();
+            return entry.snapshot;
+        },
+        [bump]
+    );
+
+    const breakCoalescing = useCallback(() => {
+        coalesceKeyRef.current = null;
+    }, []);
+
+    const clear = useCallback(() => {
+        if (undoStackRef.current.length === 0 && redoStackRef.current.length === 0) return;
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        coalesceKeyRef.current = null;
+        bump();
+    }, [bump]);
+
+    const lastUndo = undoStackRef.current[undoStackRef.current.length - 1];
+    const lastRedo = redoStackRef.current[redoStackRef.current.length - 1];
+
+    return {
+        canUndo: !!lastUndo,
+        canRedo: !!lastRedo,
+        undoLabel: lastUndo?.label ?? "",
+        redoLabel: lastRedo?.label ?? "",
+        record,
+        undo,
+        redo,
+        breakCoalescing,
+        clear
+    };
+};
@@ -0,0 +1,145 @@
+import { RefObject, useCallback, useEffect, useMemo, useState } from "react";
+import { MergeSpanInfo } from "./tableTypes";
+import { CellRange } from "./tableModel";
+
+// ── Windowed rendering for large grids ────────────────────────────────────────
+// Cells have a fixed size in this mode, so the rows and columns in view follow
+// from the scroll offset alone. Headers are sticky and cover the top/left edge
+// of the viewport, which is why they are left out of the visible area.
+
+export const VIRTUAL_CELL_WIDTH = 60;
+export const VIRTUAL_CELL_HEIGHT = 50;
+export const VIRTUAL_HEADER_WIDTH = 44;
+export const VIRTUAL_HEADER_HEIGHT = 28;
+
+// Extra rows/columns drawn outside the viewport so fast scrolling shows no gaps
+const OVERSCAN = 3;
+
+export interface Viewport {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+export interface VirtualGrid {
+    // null when virtualisation is off or the grid is empty: draw everything
+    range: CellRange | null;
+    scrollToCell: (row: number, col: number) => void;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const spanIntersects = (span: MergeSpanInfo, range: CellRange): boolean =>
+    span.anchorRow <= range.maxRow &&
+    span.anchorRow + span.rowSpan - 1 >= range.minRow &&
+    span.anchorCol <= range.maxCol &&
+    span.anchorCol + span.colSpan - 1 >= range.minCol;
+
+// Moves the window's top-left corner onto the anchor of a merge it overlaps
+const growToAnchor = (range: CellRange, span: MergeSpanInfo): boolean => {
+    if (!spanIntersects(span, range)) return false;
+    const grown = span.anchorRow < range.minRow || span.anchorCol < range.minCol;
+    range.minRow = Math.min(range.minRow, span.anchorRow);
+    range.minCol = Math.min(range.minCol, span.anchorCol);
+    return grown;
+};
+
+export const getGridWindow = (
+    viewport: Viewport,
+    rows: number,
+    columns: number,
+    spans: Record<string, MergeSpanInfo>
+): CellRange | null => {
+    if (rows === 0 || columns === 0) return null;
+    const range: CellRange = {
+        minRow: clamp(Math.floor(viewport.top / VIRTUAL_CELL_HEIGHT) + 1 - OVERSCAN, 1, rows),
+        maxRow: clamp(
+            Math.ceil((viewport.top + viewport.height - VIRTUAL_HEADER_HEIGHT) / VIRTUAL_CELL_HEIGHT) + OVERSCAN,
+            1,
+            rows
+        ),
+        minCol: clamp(Math.floor(viewport.left / VIRTUAL_CELL_WIDTH) + 1 - OVERSCAN, 1, columns),
+        maxCol: clamp(
+            Math.ceil((viewport.left + viewport.width - VIRTUAL_HEADER_WIDTH) / VIRTUAL_CELL_WIDTH) + OVERSCAN,
+            1,
+            columns
+        )
+    };
+
+    // A merge reaching into the window from above or the left is drawn by its
+    // anchor cell, so the window grows to include that anchor. Growing can pull
+    // in further merges, hence the loop.
+    const merges = Object.values(spans);
+    let grown = true;
+    while (grown) {
+        grown = merges.map(span => growToAnchor(range, span)).includes(true);
+    }
+    return range;
+};
+
+const readViewport = (element: HTMLElement): Viewport => ({
+    top: element.scrollTop,
+    left: element.scrollLeft,
+    width: element.clientWidth,
+    height: element.clientHeight
+});
+
+export const useVirtualGrid = (
+    containerRef: RefObject<HTMLElement>,
+    enabled: boolean,
+    rows: number,
+    columns: number,
+    spans: Record<string, MergeSpanInfo>
+): VirtualGrid => {
+    const [viewport, setViewport] = useState<Viewport>({ top: 0, left: 0, width: 0, height: 0 });
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!enabled || !element) return;
+        let frame = 0;
+        const update = (): void => {
+            cancelAnimationFrame(frame);
+            frame = requestAnimationFrame(() => setViewport(readViewport(element)));
+        };
+        update();
+        element.addEventListener("scroll", update, { passive: true });
+        const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(update) : null;
+        observer?.observe(element);
+        window.addEventListener("resize", update);
+        return () => {
+            cancelAnimationFrame(frame);
+            element.removeEventListener("scroll", update);
+            observer?.disconnect();
+            window.removeEventListener("resize", update);
+        };
+    }, [containerRef, enabled]);
+
+    const range = useMemo(
+        () => (enabled ? getGridWindow(viewport, rows, columns, spans) : null),
+        [enabled, viewport, rows, columns, spans]
+    );
+
+    // Brings a cell fully into view below/right of the sticky headers and
+    // updates the window straight away so the cell exists on the next render
+    const scrollToCell = useCallback(
+        (row: number, col: number) => {
+            const element = containerRef.current;
+            if (!enabled || !element) return;
+            const top = (row - 1) * VIRTUAL_CELL_HEIGHT;
+            const left = (col - 1) * VIRTUAL_CELL_WIDTH;
+            const visibleHeight = element.clientHeight - VIRTUAL_HEADER_HEIGHT;
+            const visibleWidth = element.clientWidth - VIRTUAL_HEADER_WIDTH;
+            if (top < element.scrollTop) element.scrollTop = top;
+            else if (top + VIRTUAL_CELL_HEIGHT > element.scrollTop + visibleHeight)
+                element.scrollTop = top + VIRTUAL_CELL_HEIGHT - visibleHeight;
+            if (left < element.scrollLeft) element.scrollLeft = left;
+            else if (left + VIRTUAL_CELL_WIDTH > element.scrollLeft + visibleWidth)
+                element.scrollLeft = left + VIRTUAL_CELL_WIDTH - visibleWidth;
+            setViewport(readViewport(element));
+        },
+        [containerRef, enabled]
+    );
+
+    return { range, scrollToCell };
+};